@@ -1,34 +1,197 @@
-import React, { useState, useCallback, useRef } from 'react';
-import { UploadedFile, ProcessingStatus } from './types';
-import { extractTextFromImage } from './services/geminiService';
-import { generateAndDownloadDocx } from './services/docxService';
+import React, { useState, useCallback, useRef, useEffect } from 'react';
+import { UploadedFile, ProcessingStatus, AppSettings, ContentBlock, Project, ExportFormat, StyleTemplate, PromptProfile } from './types';
+import { OcrProvider, createOcrProvider } from './services/ocrProvider';
+import { loadSettings, saveSettings } from './services/settingsService';
+import { createExporter, exportAndDownload } from './services/exporter';
+import { loadStyleTemplate, saveStyleTemplate } from './services/styleTemplateService';
+import { BUILT_IN_PROFILES, loadCustomProfiles, resolveProfile, saveCustomProfiles } from './services/promptProfiles';
+import { blocksToText } from './services/contentBlocks';
+import { isPdfFile, rasterizePdf } from './services/pdfService';
+import { createJobQueue, JobQueueController } from './services/jobQueue';
+import { preprocessImage } from './services/preprocessService';
+import { revokePreviewUrls } from './services/fileUtils';
+import { estimateImageCost, formatCost, formatTokens, getModelName, getUsageCost, sumUsage } from './services/usageService';
+import { repairCrops } from './services/cropRepair';
+import {
+  createProject,
+  deleteProject,
+  getActiveProjectId,
+  listProjects,
+  loadProjectFiles,
+  saveProject,
+  saveProjectFiles,
+  setActiveProjectId
+} from './services/sessionStore';
 import { ImageCard } from './components/ImageCard';
 import { Button } from './components/Button';
-import { UploadCloud, FileDown, Trash2, Wand2, RefreshCw } from 'lucide-react';
+import { SettingsPanel } from './components/SettingsPanel';
+import { ReviewEditor } from './components/ReviewEditor';
+import { ProjectSwitcher } from './components/ProjectSwitcher';
+import { UploadCloud, FileDown, Trash2, Wand2, RefreshCw, Settings, Pause, Play, Square } from 'lucide-react';
 import { v4 as uuidv4 } from 'uuid';
 
+// Delay before the file list is written to IndexedDB, so bursts of status updates cost one write
+const SAVE_DELAY_MS = 500;
+
 const App: React.FC = () => {
   const [files, setFiles] = useState<UploadedFile[]>([]);
   const [isProcessing, setIsProcessing] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [isPaused, setIsPaused] = useState(false);
+  const [budgetHeld, setBudgetHeld] = useState(false); // Paused because the next image would exceed the budget
+  const [settings, setSettings] = useState<AppSettings>(loadSettings);
+  const [showSettings, setShowSettings] = useState(false);
+  const [styleTemplate, setStyleTemplate] = useState<StyleTemplate | null>(loadStyleTemplate);
+  const [customProfiles, setCustomProfiles] = useState<PromptProfile[]>(loadCustomProfiles);
+  const [reviewingId, setReviewingId] = useState<string | null>(null);
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [projectId, setProjectId] = useState<string | null>(null);
+  const [isRestoring, setIsRestoring] = useState(true);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const queueRef = useRef<JobQueueController | null>(null);
+  const restoreStartedRef = useRef(false);
+  // Read by a running batch, so a budget raised in Settings applies on resume
+  const budgetRef = useRef(settings.budget);
+  budgetRef.current = settings.budget;
+
+  const openProject = async (id: string) => {
+    setIsRestoring(true);
+    try {
+      const restored = await loadProjectFiles(id);
+      setFiles(restored);
+      setProjectId(id);
+      setActiveProjectId(id);
+    } catch (error) {
+      console.error("Failed to restore project:", error);
+      alert("Could not restore the saved project: " + (error instanceof Error ? error.message : "Unknown error"));
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  // Restore the last active project, or start a first one.
+  // Guarded by a ref so StrictMode's double effect run does not create two projects.
+  useEffect(() => {
+    if (restoreStartedRef.current) return;
+    restoreStartedRef.current = true;
+    const restore = async () => {
+      try {
+        let saved = await listProjects();
+        if (saved.length === 0) {
+          saved = [await createProject('Untitled project')];
+        }
+        setProjects(saved);
+        const lastId = getActiveProjectId();
+        await openProject(saved.some(p => p.id === lastId) ? lastId! : saved[0].id);
+      } catch (error) {
+        // Persistence is unavailable (e.g. private browsing); the app still works for this session
+        console.error("Failed to open session storage:", error);
+        setIsRestoring(false);
+      }
+    };
+    restore();
+  }, []);
+
+  // Persist the file list of the open project whenever it changes
+  useEffect(() => {
+    if (isRestoring || !projectId) return;
+    const timer = setTimeout(() => {
+      saveProjectFiles(projectId, files).catch(error => console.error("Failed to save session:", error));
+    }, SAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [files, projectId, isRestoring]);
 
-  const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
+  const handleSwitchProject = async (id: string) => {
+    if (id === projectId) return;
+    if (projectId) {
+      await saveProjectFiles(projectId, files);
+    }
+    files.forEach(revokePreviewUrls);
+    setReviewingId(null);
+    await openProject(id);
+  };
+
+  const handleCreateProject = async () => {
+    const name = prompt("Project name", `Project ${projects.length + 1}`)?.trim();
+    if (!name) return;
+    const project = await createProject(name);
+    setProjects(prev => [project, ...prev]);
+    await handleSwitchProject(project.id);
+  };
+
+  const handleRenameProject = async (id: string) => {
+    const project = projects.find(p => p.id === id);
+    if (!project) return;
+    const name = prompt("Rename project", project.name)?.trim();
+    if (!name || name === project.name) return;
+    const renamed = { ...project, name };
+    await saveProject(renamed);
+    setProjects(prev => prev.map(p => p.id === id ? renamed : p));
+  };
+
+  const handleDeleteProject = async (id: string) => {
+    const project = projects.find(p => p.id === id);
+    if (!project || !confirm(`Delete "${project.name}" and all its files?`)) return;
+
+    // Stop pending autosaves from writing the deleted project back
+    setIsRestoring(true);
+    try {
+      await deleteProject(id);
+      let remaining = projects.filter(p => p.id !== id);
+      if (remaining.length === 0) {
+        remaining = [await createProject('Untitled project')];
+      }
+      setProjects(remaining);
+      files.forEach(revokePreviewUrls);
+      setReviewingId(null);
+      await openProject(remaining[0].id);
+    } catch (error) {
+      console.error("Failed to delete project:", error);
+      alert("Could not delete the project: " + (error instanceof Error ? error.message : "Unknown error"));
+    } finally {
+      // Autosave must not stay off for the rest of the session
+      setIsRestoring(false);
+    }
+  };
+
+  const createItem = (file: File, source?: { sourceName: string; pageNumber: number }): UploadedFile => ({
+    id: uuidv4(),
+    file,
+    previewUrl: URL.createObjectURL(file),
+    status: ProcessingStatus.IDLE,
+    blocks: null,
+    extractedText: null,
+    ...source
+  });
+
+  const handleFileSelect = async (event: React.ChangeEvent<HTMLInputElement>) => {
     if (event.target.files && event.target.files.length > 0) {
       // Explicitly cast to File[] to resolve type inference issues with Array.from on FileList
       const filesArray = Array.from(event.target.files) as File[];
-      
-      const newFiles: UploadedFile[] = filesArray.map(file => ({
-        id: uuidv4(),
-        file,
-        previewUrl: URL.createObjectURL(file),
-        status: ProcessingStatus.IDLE,
-        extractedText: null
-      }));
+      // Reset input to allow selecting the same file again if needed
+      if (fileInputRef.current) {
+          fileInputRef.current.value = '';
+      }
+
+      setIsImporting(true);
+      const newFiles: UploadedFile[] = [];
+
+      // Sequential so that PDF pages keep their order relative to the other files
+      for (const file of filesArray) {
+        if (isPdfFile(file)) {
+          try {
+            const pages = await rasterizePdf(file, settings.pdfDpi);
+            newFiles.push(...pages.map(page => createItem(page.file, { sourceName: file.name, pageNumber: page.pageNumber })));
+          } catch (error) {
+            alert(`Could not read ${file.name}: ` + (error instanceof Error ? error.message : "Unknown error"));
+          }
+        } else {
+          newFiles.push(createItem(file));
+        }
+      }
+
       setFiles(prev => [...prev, ...newFiles]);
-    }
-    // Reset input to allow selecting the same file again if needed
-    if (fileInputRef.current) {
-        fileInputRef.current.value = '';
+      setIsImporting(false);
     }
   };
 
@@ -36,14 +199,14 @@ const App: React.FC = () => {
     setFiles(prev => {
         const fileToRemove = prev.find(f => f.id === id);
         if (fileToRemove) {
-            URL.revokeObjectURL(fileToRemove.previewUrl);
+            revokePreviewUrls(fileToRemove);
         }
         return prev.filter(f => f.id !== id);
     });
   };
 
   const handleClearAll = () => {
-    files.forEach(f => URL.revokeObjectURL(f.previewUrl));
+    files.forEach(revokePreviewUrls);
     setFiles([]);
   };
 
@@ -59,61 +222,210 @@ const App: React.FC = () => {
     });
   };
 
+  const handleSettingsChange = (next: AppSettings) => {
+    setSettings(next);
+    saveSettings(next);
+  };
+
+  const handleStyleTemplateChange = (template: StyleTemplate | null) => {
+    saveStyleTemplate(template);
+    setStyleTemplate(template);
+  };
+
+  const handleCustomProfilesChange = (next: PromptProfile[]) => {
+    saveCustomProfiles(next);
+    setCustomProfiles(next);
+  };
+
+  const handleSaveReview = (id: string, blocks: ContentBlock[]) => {
+    // Edited blocks no longer match the OCR line positions or the logged crop repairs, so those are dropped
+    // and the searchable PDF falls back to the reviewed text
+    setFiles(prev => prev.map(f => f.id === id && f.blocks !== blocks
+      ? { ...f, blocks, extractedText: blocksToText(blocks), lines: undefined, repairs: undefined }
+      : f
+    ));
+    setReviewingId(null);
+  };
+
+  const updateFile = (id: string, patch: Partial<UploadedFile>) => {
+    setFiles(prev => prev.map(f => f.id === id ? { ...f, ...patch } : f));
+  };
+
+  const profiles = [...BUILT_IN_PROFILES, ...customProfiles];
+  const getProfile = (file: UploadedFile) => resolveProfile(profiles, file.profileId ?? settings.profileId);
+
+  // Files that "Process All" sends, with the expected cost of each
+  const pendingFiles = files.filter(f => f.status !== ProcessingStatus.COMPLETED);
+  const estimates = new Map<string, number>(pendingFiles.map(f => [f.id, estimateImageCost(files, getModelName(settings, getProfile(f)))]));
+  const batchEstimate = [...estimates.values()].reduce((sum, cost) => sum + cost, 0);
+
   const processImages = async () => {
+    const pending = pendingFiles;
+    if (pending.length === 0) return;
+
+    let provider: OcrProvider;
+    try {
+      provider = createOcrProvider(settings);
+    } catch (error) {
+      alert(error instanceof Error ? error.message : "The OCR provider is not set up.");
+      setShowSettings(true);
+      return;
+    }
+
+    const { budget } = settings;
+    if (budget.enabled && batchEstimate > budget.limitUsd
+      && !confirm(`Processing ${pending.length} image(s) is estimated at ${formatCost(batchEstimate)}, over the ${formatCost(budget.limitUsd)} budget. The batch will pause when the budget runs out. Start anyway?`)) {
+      return;
+    }
+
+    const pendingIds = new Set(pending.map(f => f.id));
+    setFiles(prev => prev.map(f => pendingIds.has(f.id)
+      ? { ...f, status: ProcessingStatus.QUEUED, errorMessage: undefined, attempts: 0 }
+      : f
+    ));
     setIsProcessing(true);
-    
-    // Process strictly one by one
-    const newFiles = [...files];
-
-    // Filter for files that are not yet completed
-    const pendingIndices = newFiles
-      .map((file, index) => ({ file, index }))
-      .filter(item => item.file.status !== ProcessingStatus.COMPLETED);
-
-    for (const { file, index } of pendingIndices) {
-      // Update status to processing
-      setFiles(prev => {
-        const update = [...prev];
-        update[index] = { ...update[index], status: ProcessingStatus.PROCESSING };
-        return update;
+    setIsPaused(false);
+
+    // Pre-processed images by file id, so retries reuse them
+    const processedImages = new Map<string, File>();
+    // Spend of this run; requests in flight hold their estimate until their usage is known
+    let spent = 0;
+    let reserved = 0;
+
+    // Holds a cost against the budget, unless it would take the run over
+    const reserve = (cost: number): boolean => {
+      const limit = budgetRef.current;
+      if (limit.enabled && spent + reserved + cost > limit.limitUsd) return false;
+      reserved += cost;
+      return true;
+    };
+
+    // Returns the cost of the calls, or null when the model has no known price.
+    // reserveCall is asked before each extra call made to re-read an unusable crop box.
+    const processImage = async (item: UploadedFile, signal: AbortSignal, reserveCall: () => boolean): Promise<number | null> => {
+      let processedFile = processedImages.get(item.id);
+      if (!processedFile && settings.preprocess.enabled) {
+        processedFile = await preprocessImage(item.file, settings.preprocess);
+        processedImages.set(item.id, processedFile);
+      }
+
+      const extraction = { ...settings.extraction, handwriting: item.handwriting ?? settings.extraction.handwriting };
+      const image = processedFile ?? item.file;
+      const profile = getProfile(item);
+      const result = await repairCrops(await provider.extract(image, extraction, profile, signal), settings.crops, {
+        image,
+        extract: region => provider.extract(region, extraction, profile, signal),
+        canStart: reserveCall,
+      });
+      // The boxes in the result refer to the image that was sent, so it replaces any earlier one
+      updateFile(item.id, {
+        status: ProcessingStatus.COMPLETED,
+        blocks: result.blocks,
+        extractedText: blocksToText(result.blocks),
+        lines: result.lines,
+        processedFile,
+        processedPreviewUrl: processedFile ? URL.createObjectURL(processedFile) : undefined,
+        usage: result.usage,
+        repairs: result.repairs,
+        errorMessage: undefined
       });
+      if (item.processedPreviewUrl) {
+        URL.revokeObjectURL(item.processedPreviewUrl);
+      }
+      return result.usage ? getUsageCost(result.usage) : null;
+    };
 
-      try {
-        const text = await extractTextFromImage(file.file);
-        
-        setFiles(prev => {
-          const update = [...prev];
-          update[index] = { 
-            ...update[index], 
-            status: ProcessingStatus.COMPLETED, 
-            extractedText: text 
-          };
-          return update;
-        });
-      } catch (error) {
-        setFiles(prev => {
-            const update = [...prev];
-            update[index] = { 
-              ...update[index], 
-              status: ProcessingStatus.ERROR, 
-              errorMessage: error instanceof Error ? error.message : "Unknown error"
-            };
-            return update;
-        });
+    const queue = createJobQueue<UploadedFile>(
+      pending,
+      async (item, signal) => {
+        const estimate = estimates.get(item.id) ?? 0;
+        // The estimate reserved by canStart, plus one more for every region call, until the real cost is known
+        let held = estimate;
+        const reserveCall = () => {
+          if (!reserve(estimate)) return false;
+          held += estimate;
+          return true;
+        };
+        let cost: number | null = null;
+        try {
+          cost = await processImage(item, signal, reserveCall);
+        } finally {
+          // A failed attempt (rate limited, network error, bad response) was still sent, so it is charged its estimate
+          reserved -= held;
+          spent += cost ?? held;
+        }
+      },
+      {
+        ...settings.queue,
+        baseDelayMs: 2000,
+        maxDelayMs: 60000,
+        canStart: item => reserve(estimates.get(item.id) ?? 0),
+      },
+      event => {
+        const { id } = event.job;
+        switch (event.type) {
+          case 'start':
+            updateFile(id, { status: ProcessingStatus.PROCESSING, attempts: event.attempt });
+            break;
+          case 'held':
+            setIsPaused(true);
+            setBudgetHeld(true);
+            break;
+          case 'retry':
+            updateFile(id, {
+              status: ProcessingStatus.RETRYING,
+              errorMessage: `${event.error instanceof Error ? event.error.message : "Request failed"}. Retrying in ${Math.round(event.delayMs / 1000)}s...`
+            });
+            break;
+          case 'failure':
+            updateFile(id, {
+              status: ProcessingStatus.ERROR,
+              errorMessage: event.error instanceof Error ? event.error.message : "Unknown error"
+            });
+            break;
+          case 'cancelled':
+            updateFile(id, { status: ProcessingStatus.CANCELLED, errorMessage: undefined });
+            break;
+        }
       }
-    }
+    );
+
+    queueRef.current = queue;
+    await queue.done;
+    queueRef.current = null;
     setIsProcessing(false);
+    setIsPaused(false);
+    setBudgetHeld(false);
+  };
+
+  const handleTogglePause = () => {
+    const queue = queueRef.current;
+    if (!queue) return;
+    if (queue.isPaused()) {
+      queue.resume();
+      setIsPaused(false);
+      setBudgetHeld(false);
+    } else {
+      queue.pause();
+      setIsPaused(true);
+    }
+  };
+
+  const handleCancel = () => {
+    queueRef.current?.cancel();
   };
 
   const handleDownload = async () => {
       try {
-          await generateAndDownloadDocx(files);
+          await exportAndDownload(files, settings.exportFormat, { layout: settings.layout, styleTemplate });
       } catch (e) {
           alert("Error generating document: " + (e instanceof Error ? e.message : "Unknown error"));
       }
   };
 
   const completedCount = files.filter(f => f.status === ProcessingStatus.COMPLETED).length;
+  const usageTotals = sumUsage(files);
+  const reviewingFile = files.find(f => f.id === reviewingId);
   const hasFiles = files.length > 0;
 
   return (
@@ -129,18 +441,27 @@ const App: React.FC = () => {
              SnapScript OCR
            </h1>
            <p className="text-lg text-slate-600 max-w-2xl mx-auto">
-             Upload images containing text or chemical formulas. We'll transcribe them and compile everything into a single Word document.
+             Upload images or scanned PDFs containing text or chemical formulas. We'll transcribe them and compile everything into a single Word document.
            </p>
         </div>
 
         {/* Action Bar */}
         <div className="bg-white rounded-2xl shadow-sm border border-slate-200 p-6 mb-8 sticky top-4 z-10 backdrop-blur-md bg-white/90">
+            <ProjectSwitcher
+                projects={projects}
+                activeProjectId={projectId}
+                disabled={isProcessing || isImporting || isRestoring}
+                onSwitch={handleSwitchProject}
+                onCreate={handleCreateProject}
+                onRename={handleRenameProject}
+                onDelete={handleDeleteProject}
+            />
             <div className="flex flex-col sm:flex-row items-center justify-between gap-4">
                 <div className="flex items-center gap-3 w-full sm:w-auto">
                     <input
                         type="file"
                         multiple
-                        accept="image/*"
+                        accept="image/*,application/pdf"
                         className="hidden"
                         ref={fileInputRef}
                         onChange={handleFileSelect}
@@ -148,9 +469,10 @@ const App: React.FC = () => {
                     <Button 
                         onClick={() => fileInputRef.current?.click()}
                         icon={<UploadCloud size={20} />}
+                        isLoading={isImporting}
                         className="w-full sm:w-auto"
                     >
-                        Upload Images
+                        Upload Images / PDF
                     </Button>
                     
                     {hasFiles && (
@@ -163,6 +485,14 @@ const App: React.FC = () => {
                             <Trash2 size={20} />
                         </Button>
                     )}
+
+                    <Button
+                        variant="ghost"
+                        onClick={() => setShowSettings(prev => !prev)}
+                        title="Settings"
+                    >
+                        <Settings size={20} />
+                    </Button>
                 </div>
 
                 <div className="flex items-center gap-3 w-full sm:w-auto">
@@ -170,17 +500,56 @@ const App: React.FC = () => {
                         <>
                            <div className="text-sm font-medium text-slate-500 hidden sm:block">
                                 {completedCount} / {files.length} Ready
+                                {usageTotals.inputTokens + usageTotals.outputTokens > 0 && (
+                                    <span className="ml-2 text-xs font-normal text-slate-400" title="Tokens in / out and cost of all processed images">
+                                        {formatTokens(usageTotals.inputTokens)} / {formatTokens(usageTotals.outputTokens)} tokens · {formatCost(usageTotals.cost)}
+                                    </span>
+                                )}
+                                {!isProcessing && batchEstimate > 0 && (
+                                    <span className="ml-2 text-xs font-normal text-slate-400" title="Estimated cost of processing the remaining images">
+                                        Est. {formatCost(batchEstimate)}
+                                    </span>
+                                )}
                            </div>
                            <Button 
                                 variant="secondary"
                                 onClick={processImages}
                                 disabled={isProcessing}
-                                isLoading={isProcessing}
+                                isLoading={isProcessing && !isPaused}
                                 icon={<RefreshCw size={18} />}
                                 className="w-full sm:w-auto"
                            >
-                                {isProcessing ? 'Processing...' : 'Process All'}
+                                {isPaused ? 'Paused' : isProcessing ? 'Processing...' : 'Process All'}
                            </Button>
+                           {isProcessing && (
+                               <>
+                                   <Button
+                                        variant="ghost"
+                                        onClick={handleTogglePause}
+                                        title={isPaused ? 'Resume' : 'Pause (running requests finish first)'}
+                                   >
+                                        {isPaused ? <Play size={18} /> : <Pause size={18} />}
+                                   </Button>
+                                   <Button
+                                        variant="ghost"
+                                        onClick={handleCancel}
+                                        title="Cancel remaining files"
+                                        className="text-red-500 hover:text-red-600 hover:bg-red-50"
+                                   >
+                                        <Square size={18} />
+                                   </Button>
+                               </>
+                           )}
+                           <select
+                                className="rounded-lg border border-slate-200 px-2 py-2.5 text-sm text-slate-700 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                                value={settings.exportFormat}
+                                onChange={e => handleSettingsChange({ ...settings, exportFormat: e.target.value as ExportFormat })}
+                                title="Export format"
+                           >
+                                {Object.values(ExportFormat).map(format => (
+                                    <option key={format} value={format}>{createExporter(format).name}</option>
+                                ))}
+                           </select>
                            <Button 
                                 variant="primary"
                                 onClick={handleDownload}
@@ -188,14 +557,32 @@ const App: React.FC = () => {
                                 icon={<FileDown size={20} />}
                                 className="w-full sm:w-auto"
                            >
-                                Download Word
+                                Download
                            </Button>
                         </>
                     )}
                 </div>
             </div>
+            {budgetHeld && (
+                <p className="mt-3 text-sm text-amber-700 bg-amber-50 border border-amber-200 rounded-lg px-3 py-2">
+                    Paused: the next image would take this run over its {formatCost(settings.budget.limitUsd)} budget.
+                    Raise the budget in Settings and resume, or cancel the remaining images.
+                </p>
+            )}
         </div>
 
+        {showSettings && (
+            <SettingsPanel
+                settings={settings}
+                onChange={handleSettingsChange}
+                styleTemplate={styleTemplate}
+                onStyleTemplateChange={handleStyleTemplateChange}
+                customProfiles={customProfiles}
+                onCustomProfilesChange={handleCustomProfilesChange}
+                onClose={() => setShowSettings(false)}
+            />
+        )}
+
         {/* File List */}
         <div className="space-y-4">
             {files.length === 0 ? (
@@ -207,7 +594,7 @@ const App: React.FC = () => {
                         <UploadCloud size={32} />
                     </div>
                     <h3 className="text-lg font-semibold text-slate-900">No images uploaded yet</h3>
-                    <p className="text-slate-500 mt-2">Click here or drag and drop images to start converting.</p>
+                    <p className="text-slate-500 mt-2">Click here or drag and drop images or PDFs to start converting.</p>
                 </div>
             ) : (
                 files.map((file, index) => (
@@ -219,12 +606,26 @@ const App: React.FC = () => {
                         onRemove={handleRemoveFile}
                         onMoveUp={() => moveFile(index, 'up')}
                         onMoveDown={() => moveFile(index, 'down')}
+                        onReview={setReviewingId}
+                        handwriting={file.handwriting ?? settings.extraction.handwriting}
+                        onToggleHandwriting={() => updateFile(file.id, { handwriting: !(file.handwriting ?? settings.extraction.handwriting) })}
+                        profiles={profiles}
+                        profileId={getProfile(file).id}
+                        onProfileChange={id => updateFile(file.id, { profileId: id === settings.profileId ? undefined : id })}
                     />
                 ))
             )}
         </div>
 
       </div>
+
+      {reviewingFile && (
+          <ReviewEditor
+              item={reviewingFile}
+              onSave={handleSaveReview}
+              onClose={() => setReviewingId(null)}
+          />
+      )}
     </div>
   );
 };
@@ -0,0 +1,123 @@
+import sharp from "sharp";
+import { CropBox, PreprocessSettings } from "../types";
+import type { CroppedImage, ImageBackend, ImageRegion } from "../services/imageService";
+import { PixelBuffer, adaptiveThreshold, detectPageCorners, estimateSkewAngle, stretchContrast, toGrayscale, warpPerspective } from "../services/imageFilters";
+import { JPEG_QUALITY, MIN_SKEW_DEGREES, getProcessedName, getProcessedType } from "../services/preprocessService";
+
+// Node counterparts of the canvas code in imageService.ts and preprocessService.ts, built on sharp.
+// The pixel filters are the same ones the browser runs, so both produce the same images.
+
+const toBuffer = async (file: Blob): Promise<Buffer> => Buffer.from(await file.arrayBuffer());
+
+const toPixelBuffer = ({ data, info }: { data: Buffer; info: sharp.OutputInfo }): PixelBuffer => ({
+  data: new Uint8ClampedArray(data.buffer, data.byteOffset, data.length),
+  width: info.width,
+  height: info.height,
+});
+
+const fromPixelBuffer = (image: PixelBuffer) =>
+  sharp(Buffer.from(image.data.buffer, image.data.byteOffset, image.data.length), {
+    raw: { width: image.width, height: image.height, channels: 4 },
+  });
+
+/**
+ * Crops a region given in 0-1000 coordinates. The EXIF orientation is applied first, as browsers do when drawing an image.
+ */
+const crop = async (file: Blob, { ymin, xmin, ymax, xmax }: CropBox): Promise<CroppedImage> => {
+  const upright = await sharp(await toBuffer(file)).rotate().toBuffer({ resolveWithObject: true });
+  const { width, height } = upright.info;
+  const left = Math.round((xmin / 1000) * width);
+  const top = Math.round((ymin / 1000) * height);
+  const right = Math.min(width, Math.round((xmax / 1000) * width));
+  const bottom = Math.min(height, Math.round((ymax / 1000) * height));
+
+  if (right <= left || bottom <= top) {
+    throw new Error("Invalid crop dimensions");
+  }
+
+  const { data, info } = await sharp(upright.data)
+    .extract({ left, top, width: right - left, height: bottom - top })
+    .png()
+    .toBuffer({ resolveWithObject: true });
+  return {
+    data: data.buffer.slice(data.byteOffset, data.byteOffset + data.length) as ArrayBuffer,
+    width: info.width,
+    height: info.height,
+  };
+};
+
+const readRegion = async (file: Blob, { ymin, xmin, ymax, xmax }: CropBox): Promise<ImageRegion> => {
+  const upright = await sharp(await toBuffer(file)).rotate().toBuffer({ resolveWithObject: true });
+  const { width: imageWidth, height: imageHeight } = upright.info;
+  const left = Math.round((xmin / 1000) * imageWidth);
+  const top = Math.round((ymin / 1000) * imageHeight);
+  const width = Math.min(imageWidth, Math.round((xmax / 1000) * imageWidth)) - left;
+  const height = Math.min(imageHeight, Math.round((ymax / 1000) * imageHeight)) - top;
+
+  if (width <= 0 || height <= 0) {
+    throw new Error("Invalid crop dimensions");
+  }
+
+  const pixels = toPixelBuffer(await sharp(upright.data)
+    .extract({ left, top, width, height })
+    .ensureAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true }));
+  return { pixels, left, top, imageWidth, imageHeight };
+};
+
+const encodePng = async (image: PixelBuffer): Promise<ArrayBuffer> => {
+  const data = await fromPixelBuffer(image).png().toBuffer();
+  return data.buffer.slice(data.byteOffset, data.byteOffset + data.length) as ArrayBuffer;
+};
+
+// No SMILES drawing: smiles-drawer needs a canvas, so chemistry crops keep the original image
+export const sharpImageBackend: ImageBackend = { crop, readRegion, encodePng };
+
+/**
+ * Runs the enabled pre-processing steps, like preprocessImage does on a canvas
+ */
+export const preprocessImageFile = async (file: File, settings: PreprocessSettings): Promise<File> => {
+  try {
+    const source = sharp(await toBuffer(file));
+    // Without arguments, rotate applies the EXIF orientation
+    const oriented = settings.autoRotate ? source.rotate() : source;
+    let image = toPixelBuffer(await oriented
+      .resize({ width: settings.maxDimension, height: settings.maxDimension, fit: 'inside', withoutEnlargement: true })
+      .flatten({ background: '#ffffff' })
+      .ensureAlpha()
+      .raw()
+      .toBuffer({ resolveWithObject: true }));
+
+    if (settings.perspective) {
+      const corners = detectPageCorners(image);
+      if (corners) {
+        image = warpPerspective(image, corners);
+      }
+    }
+
+    if (settings.deskew) {
+      const angle = estimateSkewAngle(image);
+      if (Math.abs(angle) >= MIN_SKEW_DEGREES) {
+        image = toPixelBuffer(await fromPixelBuffer(image)
+          .rotate(-angle, { background: '#ffffff' })
+          .raw()
+          .toBuffer({ resolveWithObject: true }));
+      }
+    }
+
+    if (settings.grayscale) toGrayscale(image);
+    if (settings.contrast) stretchContrast(image);
+    if (settings.threshold) adaptiveThreshold(image);
+
+    const type = getProcessedType(file, settings);
+    const encoder = fromPixelBuffer(image);
+    const data = type === 'image/png'
+      ? await encoder.png().toBuffer()
+      : await encoder.jpeg({ quality: Math.round(JPEG_QUALITY * 100) }).toBuffer();
+    return new File([data], getProcessedName(file.name, type), { type });
+  } catch (error) {
+    console.error("Failed to pre-process image:", error);
+    throw error;
+  }
+};
@@ -0,0 +1,330 @@
+import { readFile, stat, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { parseArgs } from "node:util";
+import { Packer } from "docx";
+import { glob } from "tinyglobby";
+import { v4 as uuidv4 } from "uuid";
+import { AppSettings, ExportFormat, OcrProviderType, ProcessingStatus, PromptProfile, UploadedFile } from "../types";
+import { DEFAULT_SETTINGS, mergeSettings } from "../services/settingsService";
+import { BUILT_IN_PROFILES, importProfiles } from "../services/promptProfiles";
+import { createGeminiProvider } from "../services/geminiService";
+import { createLocalProvider } from "../services/localOcrService";
+import { createJobQueue } from "../services/jobQueue";
+import { createExporter } from "../services/exporter";
+import { createDocxDocument } from "../services/docxService";
+import { blocksToText } from "../services/contentBlocks";
+import { setImageBackend } from "../services/imageService";
+import { countLowConfidence } from "../services/confidence";
+import { describeRepair, repairCrops } from "../services/cropRepair";
+import { estimateImageCost, formatCost, formatTokens, getModelName, getUsageCost, sumUsage } from "../services/usageService";
+import { preprocessImageFile, sharpImageBackend } from "./sharpImageBackend";
+
+// Command-line batch converter: runs the app's OCR and export pipeline on a folder of scans.
+
+const USAGE = `Usage: snapscript convert <inputs...> -o <output> [options]
+
+Inputs are image files, folders (searched recursively) or glob patterns such as "scans/**/*.jpg".
+Images are processed in file name order, with numbers compared by value (page2 before page10).
+
+Options:
+  -o, --output <file>      Output document; its extension picks the format (.docx, .odt, .html, .txt, .pdf, .zip)
+  -f, --format <format>    Output format when it differs from the extension (${Object.values(ExportFormat).join(', ')})
+  -p, --profile <name>     Prompt profile: a preset (${BUILT_IN_PROFILES.map(profile => profile.id.replace(/^builtin-/, '')).join(', ')}) or a profile .json file
+  -s, --settings <file>    Settings JSON (same fields as the app settings); missing fields use the defaults
+      --provider <name>    OCR provider: gemini or local
+      --endpoint <url>     Endpoint of the local OpenAI-compatible provider
+      --model <name>       Model of the local provider
+  -c, --concurrency <n>    Images processed in parallel
+      --no-preprocess      Send the images as they are
+  -r, --report <file>      Write a JSON report of the run
+  -h, --help               Show this help
+
+The Gemini provider reads its key from GEMINI_API_KEY.
+Exit codes: 0 when every image was converted, 2 when some failed (the document holds the rest), 1 on errors.`;
+
+const IMAGE_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.webp': 'image/webp',
+};
+
+const IMAGE_GLOB = `**/*.{${Object.keys(IMAGE_TYPES).map(extension => extension.slice(1)).join(',')}}`;
+
+const compareFileNames = (a: string, b: string) => a.localeCompare(b, undefined, { numeric: true, sensitivity: 'base' });
+
+/**
+ * Expands folders and glob patterns into image paths, without duplicates, in file name order
+ */
+const collectImages = async (inputs: string[]): Promise<string[]> => {
+  const paths = new Set<string>();
+  for (const input of inputs) {
+    const info = await stat(input).catch(() => null);
+    const matches = info?.isDirectory()
+      ? await glob(IMAGE_GLOB, { cwd: input, absolute: true, caseSensitiveMatch: false })
+      : info ? [path.resolve(input)] : await glob(input, { absolute: true });
+    if (matches.length === 0) {
+      throw new Error(`No images found for "${input}".`);
+    }
+    matches.forEach(match => paths.add(match));
+  }
+  const images = [...paths].filter(file => IMAGE_TYPES[path.extname(file).toLowerCase()]);
+  if (images.length === 0) {
+    throw new Error(`None of the inputs is a supported image (${Object.keys(IMAGE_TYPES).join(', ')}).`);
+  }
+  return images.sort(compareFileNames);
+};
+
+/**
+ * A preset by id or name ("chem", "math-exam", "Receipt"), or the first profile of a JSON file
+ */
+const resolveCliProfile = async (query: string): Promise<PromptProfile> => {
+  if (query.toLowerCase().endsWith('.json')) {
+    return importProfiles(await readFile(query, 'utf8'))[0];
+  }
+  const key = query.toLowerCase();
+  const profile = BUILT_IN_PROFILES.find(p => p.id === key || p.id === `builtin-${key}`)
+    ?? BUILT_IN_PROFILES.find(p => p.id.startsWith(`builtin-${key}`) || p.name.toLowerCase().startsWith(key));
+  if (!profile) {
+    throw new Error(`Unknown profile "${query}". Use a preset (${BUILT_IN_PROFILES.map(p => p.id.replace(/^builtin-/, '')).join(', ')}) or a .json file.`);
+  }
+  return profile;
+};
+
+const resolveFormat = (output: string, format: string | undefined): ExportFormat => {
+  if (format) {
+    if (!Object.values(ExportFormat).includes(format as ExportFormat)) {
+      throw new Error(`Unknown format "${format}" (expected ${Object.values(ExportFormat).join(', ')}).`);
+    }
+    return format as ExportFormat;
+  }
+  const extension = path.extname(output).slice(1).toLowerCase();
+  const match = Object.values(ExportFormat).find(f => createExporter(f).extension === extension);
+  if (!match) {
+    throw new Error(`Cannot tell the format from "${output}"; add --format.`);
+  }
+  return match;
+};
+
+const loadCliSettings = async (values: ReturnType<typeof parseCommandLine>['values']): Promise<AppSettings> => {
+  const base = values.settings
+    ? mergeSettings(JSON.parse(await readFile(values.settings, 'utf8')) as Partial<AppSettings>)
+    : DEFAULT_SETTINGS;
+  const settings: AppSettings = { ...base, local: { ...base.local }, preprocess: { ...base.preprocess }, queue: { ...base.queue } };
+
+  if (values.provider) {
+    const provider = Object.values(OcrProviderType).find(type => type.toLowerCase() === values.provider!.toLowerCase());
+    if (!provider) {
+      throw new Error(`Unknown provider "${values.provider}" (expected gemini or local).`);
+    }
+    settings.provider = provider;
+  }
+  if (values.endpoint) settings.local.endpoint = values.endpoint;
+  if (values.model) settings.local.model = values.model;
+  if (values.concurrency) {
+    const concurrency = Number(values.concurrency);
+    if (!Number.isInteger(concurrency) || concurrency < 1) {
+      throw new Error("--concurrency must be a positive whole number.");
+    }
+    settings.queue.concurrency = concurrency;
+  }
+  if (values['no-preprocess']) settings.preprocess.enabled = false;
+  return settings;
+};
+
+const parseCommandLine = (args: string[]) => parseArgs({
+  args,
+  allowPositionals: true,
+  options: {
+    output: { type: 'string', short: 'o' },
+    format: { type: 'string', short: 'f' },
+    profile: { type: 'string', short: 'p' },
+    settings: { type: 'string', short: 's' },
+    provider: { type: 'string' },
+    endpoint: { type: 'string' },
+    model: { type: 'string' },
+    concurrency: { type: 'string', short: 'c' },
+    'no-preprocess': { type: 'boolean' },
+    report: { type: 'string', short: 'r' },
+    help: { type: 'boolean', short: 'h' },
+  },
+});
+
+const toUploadedFile = async (imagePath: string): Promise<UploadedFile> => ({
+  id: uuidv4(),
+  file: new File([await readFile(imagePath)], path.basename(imagePath), { type: IMAGE_TYPES[path.extname(imagePath).toLowerCase()] }),
+  previewUrl: '',
+  status: ProcessingStatus.IDLE,
+  blocks: null,
+  extractedText: null,
+});
+
+const writeReport = async (reportPath: string, run: {
+  output: string | null;
+  format: ExportFormat;
+  profile: PromptProfile;
+  settings: AppSettings;
+  startedAt: Date;
+  images: { path: string; item: UploadedFile }[];
+}) => {
+  const totals = sumUsage(run.images.map(image => image.item));
+  const count = (status: ProcessingStatus) => run.images.filter(image => image.item.status === status).length;
+  const report = {
+    output: run.output,
+    format: run.format,
+    profile: run.profile.name,
+    provider: run.settings.provider,
+    startedAt: run.startedAt.toISOString(),
+    durationMs: Date.now() - run.startedAt.getTime(),
+    totals: {
+      images: run.images.length,
+      completed: count(ProcessingStatus.COMPLETED),
+      failed: count(ProcessingStatus.ERROR),
+      cancelled: run.images.length - count(ProcessingStatus.COMPLETED) - count(ProcessingStatus.ERROR),
+      inputTokens: totals.inputTokens,
+      outputTokens: totals.outputTokens,
+      costUsd: totals.cost,
+    },
+    files: run.images.map(({ path: imagePath, item }) => ({
+      path: imagePath,
+      status: item.status,
+      attempts: item.attempts ?? 0,
+      error: item.errorMessage ?? null,
+      blocks: item.blocks?.length ?? 0,
+      lowConfidence: countLowConfidence(item.blocks ?? []),
+      cropRepairs: (item.repairs ?? []).map(describeRepair),
+      usage: item.usage ?? null,
+      costUsd: item.usage ? getUsageCost(item.usage) : null,
+    })),
+  };
+  await writeFile(reportPath, JSON.stringify(report, null, 2));
+};
+
+const convert = async (values: ReturnType<typeof parseCommandLine>['values'], inputs: string[]): Promise<number> => {
+  if (inputs.length === 0 || !values.output) {
+    throw new Error("convert needs at least one input and --output.");
+  }
+  const startedAt = new Date();
+  const output = path.resolve(values.output);
+  const format = resolveFormat(output, values.format);
+  const settings = await loadCliSettings(values);
+  const profile = values.profile ? await resolveCliProfile(values.profile) : BUILT_IN_PROFILES[0];
+
+  const apiKey = process.env.GEMINI_API_KEY;
+  if (settings.provider === OcrProviderType.GEMINI && !apiKey) {
+    throw new Error("Set GEMINI_API_KEY to use the Gemini provider.");
+  }
+
+  const imagePaths = await collectImages(inputs);
+  const images = await Promise.all(imagePaths.map(async imagePath => ({ path: imagePath, item: await toUploadedFile(imagePath) })));
+  const items = images.map(image => image.item);
+  const estimate = estimateImageCost([], getModelName(settings, profile)) * items.length;
+  console.error(`Converting ${items.length} image(s) with "${profile.name}"${estimate > 0 ? ` (est. ${formatCost(estimate)})` : ''}`);
+
+  const provider = settings.provider === OcrProviderType.LOCAL ? createLocalProvider(settings.local) : createGeminiProvider(apiKey!);
+  let finished = 0;
+  const queue = createJobQueue<UploadedFile>(
+    items,
+    async (item, signal) => {
+      // Pre-processed once, even when the OCR call is retried
+      if (!item.processedFile && settings.preprocess.enabled) {
+        item.processedFile = await preprocessImageFile(item.file, settings.preprocess);
+      }
+      const image = item.processedFile ?? item.file;
+      const result = await repairCrops(await provider.extract(image, settings.extraction, profile, signal), settings.crops, {
+        image,
+        extract: region => provider.extract(region, settings.extraction, profile, signal),
+      });
+      Object.assign(item, {
+        status: ProcessingStatus.COMPLETED,
+        blocks: result.blocks,
+        extractedText: blocksToText(result.blocks),
+        lines: result.lines,
+        usage: result.usage,
+        repairs: result.repairs,
+        errorMessage: undefined,
+      });
+    },
+    { ...settings.queue, baseDelayMs: 2000, maxDelayMs: 60000 },
+    event => {
+      const { job } = event;
+      const progress = () => `[${++finished}/${items.length}] ${job.file.name}`;
+      switch (event.type) {
+        case 'start':
+          job.status = ProcessingStatus.PROCESSING;
+          job.attempts = event.attempt;
+          break;
+        case 'retry':
+          console.error(`${job.file.name}: retrying in ${Math.round(event.delayMs / 1000)}s (${event.error instanceof Error ? event.error.message : 'request failed'})`);
+          break;
+        case 'success': {
+          const cost = job.usage ? getUsageCost(job.usage) : null;
+          console.error(`${progress()}${job.usage ? ` · ${formatTokens(job.usage.inputTokens)} / ${formatTokens(job.usage.outputTokens)} tokens` : ''}${cost !== null ? ` · ${formatCost(cost)}` : ''}`);
+          break;
+        }
+        case 'failure':
+          job.status = ProcessingStatus.ERROR;
+          job.errorMessage = event.error instanceof Error ? event.error.message : "Unknown error";
+          console.error(`${progress()} failed: ${job.errorMessage}`);
+          break;
+        case 'cancelled':
+          job.status = ProcessingStatus.CANCELLED;
+          break;
+      }
+    }
+  );
+
+  // The first Ctrl+C stops starting new images; requests in flight still finish and are exported
+  process.once('SIGINT', () => {
+    console.error("Cancelling; waiting for running requests...");
+    queue.cancel();
+  });
+  await queue.done;
+
+  const completed = items.filter(item => item.status === ProcessingStatus.COMPLETED);
+  let written: string | null = null;
+  if (completed.length > 0) {
+    const options = { layout: settings.layout };
+    const data = format === ExportFormat.DOCX
+      ? await Packer.toBuffer(await createDocxDocument(items, options))
+      : Buffer.from(await (await createExporter(format).export(items, options)).arrayBuffer());
+    await writeFile(output, data);
+    written = output;
+  }
+
+  if (values.report) {
+    await writeReport(path.resolve(values.report), { output: written, format, profile, settings, startedAt, images });
+  }
+
+  const totals = sumUsage(items);
+  console.error(`${completed.length} of ${items.length} image(s) converted · ${formatTokens(totals.inputTokens)} / ${formatTokens(totals.outputTokens)} tokens · ${formatCost(totals.cost)}`);
+  if (!written) {
+    console.error("Nothing was converted; no document written.");
+    return 1;
+  }
+  console.log(written);
+  return completed.length === items.length ? 0 : 2;
+};
+
+const main = async (): Promise<number> => {
+  const { values, positionals } = parseCommandLine(process.argv.slice(2));
+  const [command, ...inputs] = positionals;
+  if (values.help || !command) {
+    console.log(USAGE);
+    return values.help ? 0 : 1;
+  }
+  if (command !== 'convert') {
+    throw new Error(`Unknown command "${command}".\n\n${USAGE}`);
+  }
+
+  setImageBackend(sharpImageBackend);
+  return convert(values, inputs);
+};
+
+main().then(
+  code => process.exit(code),
+  (error: unknown) => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+);
@@ -0,0 +1,17 @@
+import { defineConfig } from 'vite';
+
+// Bundles the command-line converter for Node. Dependencies stay external and load from node_modules.
+export default defineConfig({
+  build: {
+    ssr: 'cli/snapscript.ts',
+    outDir: 'dist-cli',
+    emptyOutDir: true,
+    target: 'node20',
+    rollupOptions: {
+      output: {
+        entryFileNames: 'snapscript.js',
+        banner: '#!/usr/bin/env node',
+      },
+    },
+  },
+});
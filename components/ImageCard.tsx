@@ -1,6 +1,9 @@
-import React from 'react';
-import { UploadedFile, ProcessingStatus } from '../types';
-import { CheckCircle2, AlertCircle, Loader2, X, FileText, ImageIcon, ArrowUp, ArrowDown } from 'lucide-react';
+import React, { useState } from 'react';
+import { UploadedFile, ProcessingStatus, PromptProfile, CropRepairType } from '../types';
+import { countLowConfidence } from '../services/confidence';
+import { formatCost, formatTokens, getUsageCost } from '../services/usageService';
+import { describeRepair } from '../services/cropRepair';
+import { CheckCircle2, AlertCircle, Loader2, X, FileText, ImageIcon, ArrowUp, ArrowDown, PencilLine, Clock, RotateCw, Ban, SlidersHorizontal, PenTool, Type } from 'lucide-react';
 
 interface ImageCardProps {
   item: UploadedFile;
@@ -9,6 +12,12 @@ interface ImageCardProps {
   onRemove: (id: string) => void;
   onMoveUp: (index: number) => void;
   onMoveDown: (index: number) => void;
+  onReview: (id: string) => void;
+  handwriting: boolean; // Whether the image is (or will be) read with the handwriting prompt
+  onToggleHandwriting: () => void;
+  profiles: PromptProfile[];
+  profileId: string; // Profile the image is (or will be) read with
+  onProfileChange: (id: string) => void;
 }
 
 export const ImageCard: React.FC<ImageCardProps> = ({ 
@@ -17,8 +26,23 @@ export const ImageCard: React.FC<ImageCardProps> = ({
   totalCount, 
   onRemove, 
   onMoveUp, 
-  onMoveDown 
+  onMoveDown,
+  onReview,
+  handwriting,
+  onToggleHandwriting,
+  profiles,
+  profileId,
+  onProfileChange
 }) => {
+  const [showOriginal, setShowOriginal] = useState(false);
+  const processed = Boolean(item.processedPreviewUrl);
+  const lowConfidence = countLowConfidence(item.blocks ?? []);
+  const cost = item.usage ? getUsageCost(item.usage) : null;
+  const repairs = item.repairs ?? [];
+  const unusableCrops = repairs.filter(repair => repair.type === CropRepairType.INVALID).length;
+  // The prompt can only change before the image is sent
+  const canChangeMode = item.status === ProcessingStatus.IDLE || item.status === ProcessingStatus.ERROR || item.status === ProcessingStatus.CANCELLED;
+
   return (
     <div className="group relative flex flex-col sm:flex-row gap-4 bg-white p-4 rounded-xl border border-slate-200 shadow-sm hover:shadow-md transition-all duration-300">
       
@@ -47,8 +71,8 @@ export const ImageCard: React.FC<ImageCardProps> = ({
       <div className="relative w-full sm:w-32 h-32 flex-shrink-0 bg-slate-100 rounded-lg overflow-hidden border border-slate-100">
         {item.file.type.startsWith('image/') ? (
           <img 
-            src={item.previewUrl} 
-            alt="Preview" 
+            src={processed && !showOriginal ? item.processedPreviewUrl : item.previewUrl} 
+            alt={processed && !showOriginal ? "Processed preview" : "Preview"} 
             className="w-full h-full object-cover"
           />
         ) : (
@@ -64,6 +88,21 @@ export const ImageCard: React.FC<ImageCardProps> = ({
                   <Loader2 className="w-5 h-5 text-indigo-600 animate-spin" />
                </div>
              )}
+             {item.status === ProcessingStatus.QUEUED && (
+               <div className="bg-white/90 p-2 rounded-full shadow-lg backdrop-blur-sm">
+                  <Clock className="w-5 h-5 text-slate-500" />
+               </div>
+             )}
+             {item.status === ProcessingStatus.RETRYING && (
+               <div className="bg-amber-500/90 p-2 rounded-full shadow-lg">
+                  <RotateCw className="w-5 h-5 text-white animate-spin" />
+               </div>
+             )}
+             {item.status === ProcessingStatus.CANCELLED && (
+               <div className="bg-slate-500/90 p-2 rounded-full shadow-lg">
+                  <Ban className="w-5 h-5 text-white" />
+               </div>
+             )}
              {item.status === ProcessingStatus.COMPLETED && (
                <div className="bg-green-500/90 p-2 rounded-full shadow-lg">
                   <CheckCircle2 className="w-5 h-5 text-white" />
@@ -75,6 +114,18 @@ export const ImageCard: React.FC<ImageCardProps> = ({
                </div>
              )}
         </div>
+
+        {/* Before/after toggle for pre-processed images */}
+        {processed && (
+          <button
+            onClick={() => setShowOriginal(prev => !prev)}
+            className="absolute bottom-1.5 left-1.5 flex items-center gap-1 bg-white/90 hover:bg-white text-slate-700 text-[10px] font-semibold uppercase tracking-wide px-1.5 py-0.5 rounded shadow"
+            title={showOriginal ? "Showing the original image; click to see the processed image sent to OCR" : "Showing the processed image sent to OCR; click to see the original"}
+          >
+            <SlidersHorizontal size={10} />
+            {showOriginal ? 'Before' : 'After'}
+          </button>
+        )}
       </div>
 
       {/* Content */}
@@ -88,8 +139,55 @@ export const ImageCard: React.FC<ImageCardProps> = ({
                     </h4>
                 </div>
                 <p className="text-xs text-slate-500 mt-1">
-                {(item.file.size / 1024).toFixed(1)} KB
+                {item.pageNumber ? `Page ${item.pageNumber} of ${item.sourceName} · ` : ''}{(item.file.size / 1024).toFixed(1)} KB
+                {lowConfidence > 0 && (
+                    <span className="text-amber-600 font-medium" title="Passages the model was not confident about; check them in the review editor">
+                        {' · '}{lowConfidence} low-confidence {lowConfidence === 1 ? 'passage' : 'passages'}
+                    </span>
+                )}
                 </p>
+                {item.usage && (
+                    <p className="text-[11px] text-slate-400 mt-0.5" title={`Model: ${item.usage.model}`}>
+                        {formatTokens(item.usage.inputTokens)} in / {formatTokens(item.usage.outputTokens)} out tokens
+                        {cost !== null && ` · ${formatCost(cost)}`}
+                        {` · ${(item.usage.latencyMs / 1000).toFixed(1)}s`}
+                    </p>
+                )}
+                {repairs.length > 0 && (
+                    <details className="mt-0.5 text-[11px]">
+                        <summary className={`cursor-pointer ${unusableCrops > 0 ? 'text-red-600' : 'text-slate-500'}`}>
+                            {repairs.length} crop {repairs.length === 1 ? 'fix' : 'fixes'}
+                            {unusableCrops > 0 && ` · ${unusableCrops} missing`}
+                        </summary>
+                        <ul className="mt-1 space-y-0.5 font-mono text-slate-500">
+                            {repairs.map((repair, i) => (
+                                <li key={i} className={repair.type === CropRepairType.INVALID ? 'text-red-600' : ''}>{describeRepair(repair)}</li>
+                            ))}
+                        </ul>
+                    </details>
+                )}
+                <div className="mt-1.5 flex items-center gap-2">
+                <button
+                    onClick={onToggleHandwriting}
+                    disabled={!canChangeMode}
+                    className={`flex items-center gap-1 text-[11px] font-medium px-1.5 py-0.5 rounded border transition-colors disabled:cursor-default ${handwriting ? 'bg-violet-50 border-violet-200 text-violet-700' : 'bg-slate-50 border-slate-200 text-slate-500'} ${canChangeMode ? 'hover:border-indigo-300' : ''}`}
+                    title={canChangeMode ? "Click to switch between the printed and handwriting prompts for this image" : "Prompt used for this image"}
+                >
+                    {handwriting ? <PenTool size={11} /> : <Type size={11} />}
+                    {handwriting ? 'Handwritten' : 'Printed'}
+                </button>
+                <select
+                    value={profileId}
+                    onChange={e => onProfileChange(e.target.value)}
+                    disabled={!canChangeMode}
+                    className="max-w-[160px] text-[11px] text-slate-600 bg-slate-50 border border-slate-200 rounded px-1 py-0.5 focus:outline-none focus:ring-1 focus:ring-indigo-500 disabled:opacity-70"
+                    title={canChangeMode ? "Prompt profile for this image" : "Prompt profile used for this image"}
+                >
+                    {profiles.map(profile => (
+                        <option key={profile.id} value={profile.id}>{profile.name}</option>
+                    ))}
+                </select>
+                </div>
             </div>
             
             <div className="flex items-center gap-1">
@@ -111,6 +209,16 @@ export const ImageCard: React.FC<ImageCardProps> = ({
                     </button>
                 </div>
 
+                {item.status === ProcessingStatus.COMPLETED && (
+                    <button
+                        onClick={() => onReview(item.id)}
+                        className="text-slate-400 hover:text-indigo-600 transition-colors p-1.5 rounded-md hover:bg-slate-50"
+                        title="Review and correct"
+                    >
+                        <PencilLine size={18} />
+                    </button>
+                )}
+
                 <button 
                     onClick={() => onRemove(item.id)}
                     className="text-slate-400 hover:text-red-500 transition-colors p-1.5 rounded-md hover:bg-slate-50"
@@ -131,13 +239,22 @@ export const ImageCard: React.FC<ImageCardProps> = ({
                  </div>
              ) : item.status === ProcessingStatus.ERROR ? (
                  <div className="bg-red-50 text-red-600 text-xs p-3 rounded-lg">
-                    Failed to extract text. {item.errorMessage}
+                    Failed to extract text{item.attempts && item.attempts > 1 ? ` after ${item.attempts} attempts` : ''}. {item.errorMessage}
+                 </div>
+             ) : item.status === ProcessingStatus.RETRYING ? (
+                 <div className="bg-amber-50 text-amber-700 text-xs p-3 rounded-lg">
+                    Attempt {item.attempts} failed: {item.errorMessage}
                  </div>
              ) : (
                 <div className="h-24 flex items-center justify-center border border-dashed border-slate-200 rounded-lg bg-slate-50/50">
                      <div className="flex flex-col items-center gap-2 text-slate-400">
                         <FileText size={16} />
-                        <span className="text-xs">Waiting to extract...</span>
+                        <span className="text-xs">
+                          {item.status === ProcessingStatus.QUEUED ? 'Queued...'
+                            : item.status === ProcessingStatus.PROCESSING ? 'Extracting...'
+                            : item.status === ProcessingStatus.CANCELLED ? 'Cancelled'
+                            : 'Waiting to extract...'}
+                        </span>
                      </div>
                 </div>
              )}
@@ -0,0 +1,197 @@
+import React, { useRef } from 'react';
+import { CropElement, PromptProfile } from '../types';
+import { BUILT_IN_PROFILES, DEFAULT_PROFILE_ID, copyProfile, exportProfiles, importProfiles, resolveProfile } from '../services/promptProfiles';
+import { downloadBlob } from '../services/fileUtils';
+import { Copy, Download, Lock, Plus, Trash2, Upload } from 'lucide-react';
+
+interface ProfileManagerProps {
+  selectedId: string; // Default profile of the batch
+  onSelect: (id: string) => void;
+  customProfiles: PromptProfile[];
+  onCustomProfilesChange: (profiles: PromptProfile[]) => void;
+}
+
+const inputStyles = "w-full rounded-lg border border-slate-200 px-3 py-2 text-sm text-slate-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 disabled:bg-slate-50 disabled:text-slate-500";
+const labelStyles = "block text-xs font-semibold text-slate-500 uppercase tracking-wide mb-1";
+const actionStyles = "flex items-center gap-1 text-sm font-medium text-indigo-600 hover:text-indigo-700 px-2 py-1 rounded-md hover:bg-indigo-50";
+
+const CROP_ELEMENT_LABELS: Record<CropElement, string> = {
+  [CropElement.MATH]: 'Math formulas',
+  [CropElement.CHEMISTRY]: 'Chemistry',
+  [CropElement.DIAGRAMS]: 'Diagrams & figures',
+  [CropElement.CHARTS]: 'Charts & graphs',
+  [CropElement.PICTURES]: 'Photos, logos & stamps',
+};
+
+export const ProfileManager: React.FC<ProfileManagerProps> = ({ selectedId, onSelect, customProfiles, onCustomProfilesChange }) => {
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const profiles = [...BUILT_IN_PROFILES, ...customProfiles];
+  const selected = resolveProfile(profiles, selectedId);
+  const editable = !selected.builtIn;
+
+  const updateSelected = (changes: Partial<PromptProfile>) => {
+    onCustomProfilesChange(customProfiles.map(profile => profile.id === selected.id ? { ...profile, ...changes } : profile));
+  };
+
+  const toggleCropElement = (element: CropElement) => {
+    const { cropElements } = selected;
+    updateSelected({
+      cropElements: cropElements.includes(element) ? cropElements.filter(e => e !== element) : [...cropElements, element],
+    });
+  };
+
+  // New profiles start as a copy of the selected one, so built-in presets serve as templates
+  const handleDuplicate = () => {
+    const copy = copyProfile(selected);
+    onCustomProfilesChange([...customProfiles, copy]);
+    onSelect(copy.id);
+  };
+
+  const handleDelete = () => {
+    if (!confirm(`Delete the profile "${selected.name}"? Images that use it fall back to the default profile.`)) return;
+    onCustomProfilesChange(customProfiles.filter(profile => profile.id !== selected.id));
+    onSelect(DEFAULT_PROFILE_ID);
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      const imported = importProfiles(await file.text());
+      onCustomProfilesChange([...customProfiles, ...imported]);
+      onSelect(imported[0].id);
+    } catch (error) {
+      alert("Could not import the profiles: " + (error instanceof Error ? error.message : "Unknown error"));
+    }
+  };
+
+  const handleExport = () => {
+    const fileName = selected.name.replace(/[^\w-]+/g, '_').replace(/^_+|_+$/g, '') || 'profile';
+    downloadBlob(exportProfiles([selected]), `${fileName}.json`);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <label className={labelStyles}>Prompt Profile</label>
+        <select className={inputStyles} value={selected.id} onChange={e => onSelect(e.target.value)}>
+          <optgroup label="Presets">
+            {BUILT_IN_PROFILES.map(profile => <option key={profile.id} value={profile.id}>{profile.name}</option>)}
+          </optgroup>
+          {customProfiles.length > 0 && (
+            <optgroup label="My profiles">
+              {customProfiles.map(profile => <option key={profile.id} value={profile.id}>{profile.name}</option>)}
+            </optgroup>
+          )}
+        </select>
+        <div className="mt-1 flex flex-wrap items-center gap-1">
+          <button className={actionStyles} onClick={handleDuplicate} title="Create an editable copy of this profile">
+            {editable ? <Copy size={14} /> : <Plus size={14} />}
+            {editable ? 'Duplicate' : 'Copy to edit'}
+          </button>
+          <button className={actionStyles} onClick={handleExport} title="Download this profile as JSON">
+            <Download size={14} />
+            Export
+          </button>
+          <button className={actionStyles} onClick={() => importInputRef.current?.click()} title="Add profiles from a JSON file">
+            <Upload size={14} />
+            Import
+          </button>
+          {editable && (
+            <button
+              className="flex items-center gap-1 text-sm font-medium text-slate-500 hover:text-red-600 px-2 py-1 rounded-md hover:bg-red-50"
+              onClick={handleDelete}
+            >
+              <Trash2 size={14} />
+              Delete
+            </button>
+          )}
+          <input ref={importInputRef} type="file" accept=".json,application/json" className="hidden" onChange={handleImport} />
+        </div>
+        <p className="mt-1 text-xs text-slate-500">
+          Used for every image of the batch unless its card selects another profile.
+          {!editable && <span className="inline-flex items-center gap-1 ml-1"><Lock size={11} /> Presets are read-only; copy one to change it.</span>}
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        {editable && (
+          <div className="sm:col-span-2">
+            <label className={labelStyles}>Name</label>
+            <input type="text" className={inputStyles} value={selected.name} onChange={e => updateSelected({ name: e.target.value })} />
+          </div>
+        )}
+        <div className="sm:col-span-2">
+          <label className={labelStyles}>System Instruction</label>
+          <textarea
+            className={`${inputStyles} font-mono text-xs h-28 resize-y`}
+            value={selected.systemInstruction}
+            disabled={!editable}
+            onChange={e => updateSelected({ systemInstruction: e.target.value })}
+          />
+          <p className="mt-1 text-xs text-slate-500">
+            Describes the documents and how to read them. The output format, layout and option instructions are added automatically.
+          </p>
+        </div>
+        <div className="sm:col-span-2">
+          <label className={labelStyles}>User Prompt</label>
+          <input
+            type="text"
+            className={inputStyles}
+            value={selected.userPrompt}
+            disabled={!editable}
+            onChange={e => updateSelected({ userPrompt: e.target.value })}
+          />
+        </div>
+        <div>
+          <label className={labelStyles}>Temperature</label>
+          <input
+            type="number"
+            min={0}
+            max={2}
+            step={0.1}
+            className={inputStyles}
+            value={selected.temperature}
+            disabled={!editable}
+            onChange={e => {
+              const value = Number(e.target.value);
+              if (Number.isFinite(value)) updateSelected({ temperature: Math.min(2, Math.max(0, value)) });
+            }}
+          />
+        </div>
+        <div>
+          <label className={labelStyles}>Model</label>
+          <input
+            type="text"
+            className={inputStyles}
+            value={selected.model}
+            placeholder="Provider default"
+            disabled={!editable}
+            onChange={e => updateSelected({ model: e.target.value.trim() })}
+          />
+        </div>
+        <div className="sm:col-span-2">
+          <label className={labelStyles}>Crop as Images</label>
+          <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+            {Object.values(CropElement).map(element => (
+              <label key={element} className={`flex items-center gap-2 text-sm text-slate-700 ${editable ? 'cursor-pointer' : 'opacity-70'}`}>
+                <input
+                  type="checkbox"
+                  className="h-4 w-4 rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+                  checked={selected.cropElements.includes(element)}
+                  disabled={!editable}
+                  onChange={() => toggleCropElement(element)}
+                />
+                {CROP_ELEMENT_LABELS[element]}
+              </label>
+            ))}
+          </div>
+          <p className="mt-1 text-xs text-slate-500">
+            Everything else is transcribed as text. With LaTeX mode on, math formulas become equations instead of images.
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,58 @@
+import React from 'react';
+import { Project } from '../types';
+import { FolderOpen, FolderPlus, PencilLine, Trash2 } from 'lucide-react';
+
+interface ProjectSwitcherProps {
+  projects: Project[];
+  activeProjectId: string | null;
+  disabled?: boolean; // Switching is blocked while a batch is running
+  onSwitch: (id: string) => void;
+  onCreate: () => void;
+  onRename: (id: string) => void;
+  onDelete: (id: string) => void;
+}
+
+const iconButtonStyles = "text-slate-400 hover:text-slate-600 p-1.5 rounded-md hover:bg-slate-100 disabled:opacity-50 disabled:cursor-not-allowed";
+
+export const ProjectSwitcher: React.FC<ProjectSwitcherProps> = ({
+  projects,
+  activeProjectId,
+  disabled,
+  onSwitch,
+  onCreate,
+  onRename,
+  onDelete
+}) => (
+  <div className="flex items-center gap-2 mb-4">
+    <FolderOpen size={18} className="text-indigo-600 shrink-0" />
+    <select
+      className="flex-1 min-w-0 rounded-lg border border-slate-200 px-3 py-1.5 text-sm text-slate-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 disabled:opacity-50"
+      value={activeProjectId ?? ''}
+      onChange={e => onSwitch(e.target.value)}
+      disabled={disabled}
+      title={disabled ? 'Wait for processing to finish before switching projects' : 'Switch project'}
+    >
+      {projects.map(project => (
+        <option key={project.id} value={project.id}>{project.name}</option>
+      ))}
+    </select>
+    <button className={iconButtonStyles} onClick={onCreate} disabled={disabled} title="New project">
+      <FolderPlus size={18} />
+    </button>
+    {activeProjectId && (
+      <>
+        <button className={iconButtonStyles} onClick={() => onRename(activeProjectId)} title="Rename project">
+          <PencilLine size={18} />
+        </button>
+        <button
+          className={`${iconButtonStyles} hover:text-red-600 hover:bg-red-50`}
+          onClick={() => onDelete(activeProjectId)}
+          disabled={disabled}
+          title="Delete project"
+        >
+          <Trash2 size={18} />
+        </button>
+      </>
+    )}
+  </div>
+);
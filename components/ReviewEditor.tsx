@@ -0,0 +1,349 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { UploadedFile, ContentBlock, CropBox } from '../types';
+import { blocksToText, carryOverConfidence, findTags, findUncertainRanges, formatTag, parseTextToBlocks } from '../services/contentBlocks';
+import { Button } from './Button';
+import { Bold, ChevronDown, Crop, Heading, Highlighter, Italic, List, ListOrdered, Save, Trash2, Underline, X } from 'lucide-react';
+
+interface ReviewEditorProps {
+  item: UploadedFile;
+  onSave: (id: string, blocks: ContentBlock[]) => void;
+  onClose: () => void;
+}
+
+type DragMode = 'move' | 'resize' | 'draw';
+
+interface DragState {
+  mode: DragMode;
+  tagIndex: number; // -1 while drawing a new box
+  startX: number;
+  startY: number;
+  origin: CropBox;
+}
+
+const MIN_SIZE = 5;
+
+const clamp = (value: number) => Math.min(1000, Math.max(0, Math.round(value)));
+
+// Keeps a box inside the 0-1000 range with a minimal size, whatever direction it was dragged in
+const normalizeBox = (box: CropBox): CropBox => {
+  const ymin = clamp(Math.min(box.ymin, box.ymax));
+  const xmin = clamp(Math.min(box.xmin, box.xmax));
+  return {
+    ymin,
+    xmin,
+    ymax: Math.max(ymin + MIN_SIZE, clamp(Math.max(box.ymin, box.ymax))),
+    xmax: Math.max(xmin + MIN_SIZE, clamp(Math.max(box.xmin, box.xmax))),
+  };
+};
+
+export const ReviewEditor: React.FC<ReviewEditorProps> = ({ item, onSave, onClose }) => {
+  const [text, setText] = useState(() => blocksToText(item.blocks ?? []));
+  const [selectedTag, setSelectedTag] = useState<number | null>(null);
+  const [drawMode, setDrawMode] = useState(false);
+  const [drag, setDrag] = useState<DragState | null>(null);
+  const [draftBox, setDraftBox] = useState<CropBox | null>(null);
+  const draftRef = useRef<CropBox | null>(null);
+  const imageRef = useRef<HTMLDivElement>(null);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const backdropRef = useRef<HTMLDivElement>(null);
+
+  const tags = findTags(text);
+  const uncertain = findUncertainRanges(text);
+
+  // Converts a mouse position to 0-1000 image coordinates
+  const toCoords = (clientX: number, clientY: number) => {
+    const rect = imageRef.current!.getBoundingClientRect();
+    return {
+      x: ((clientX - rect.left) / rect.width) * 1000,
+      y: ((clientY - rect.top) / rect.height) * 1000,
+    };
+  };
+
+  const replaceTag = (index: number, box: CropBox) => {
+    setText(prev => {
+      const tag = findTags(prev)[index];
+      if (!tag) return prev;
+      return prev.slice(0, tag.start) + formatTag(tag.kind, box, tag.attributes) + prev.slice(tag.end);
+    });
+  };
+
+  const deleteTag = (index: number) => {
+    setText(prev => {
+      const tag = findTags(prev)[index];
+      if (!tag) return prev;
+      return prev.slice(0, tag.start) + prev.slice(tag.end);
+    });
+    setSelectedTag(null);
+  };
+
+  // Inserts text at the textarea cursor (or at the end)
+  const insertAtCursor = (snippet: string) => {
+    const textarea = textareaRef.current;
+    const position = textarea ? textarea.selectionStart : text.length;
+    setText(prev => prev.slice(0, position) + snippet + prev.slice(position));
+  };
+
+  const insertLinePrefix = (prefix: string) => {
+    const textarea = textareaRef.current;
+    const position = textarea ? textarea.selectionStart : text.length;
+    setText(prev => {
+      const lineStart = prev.lastIndexOf('\n', position - 1) + 1;
+      return prev.slice(0, lineStart) + prefix + prev.slice(lineStart);
+    });
+  };
+
+  // Wraps the selected text in inline formatting markup, e.g. **bold**
+  const wrapSelection = (open: string, close: string = open) => {
+    const textarea = textareaRef.current;
+    if (!textarea || textarea.selectionStart === textarea.selectionEnd) return;
+    const { selectionStart, selectionEnd } = textarea;
+    setText(prev => prev.slice(0, selectionStart) + open + prev.slice(selectionStart, selectionEnd) + close + prev.slice(selectionEnd));
+  };
+
+  // Selects the next uncertain reading after the cursor, wrapping around to the first
+  const selectNextUncertain = () => {
+    const textarea = textareaRef.current;
+    if (!textarea || uncertain.length === 0) return;
+    const next = uncertain.find(range => range.start >= textarea.selectionEnd) ?? uncertain[0];
+    textarea.focus();
+    textarea.setSelectionRange(next.start, next.end);
+  };
+
+  // Text shown behind the transparent textarea, with the uncertain readings highlighted
+  const renderHighlights = () => {
+    const parts: React.ReactNode[] = [];
+    let cursor = 0;
+    uncertain.forEach(({ start, end }) => {
+      parts.push(text.slice(cursor, start));
+      parts.push(<mark key={start} className="bg-amber-200/80 text-transparent rounded-sm">{text.slice(start, end)}</mark>);
+      cursor = end;
+    });
+    // A trailing newline needs content after it to take up its line
+    parts.push(`${text.slice(cursor)} `);
+    return parts;
+  };
+
+  useEffect(() => {
+    if (!drag) return;
+
+    const handleMove = (event: MouseEvent) => {
+      const { x, y } = toCoords(event.clientX, event.clientY);
+      const dx = x - drag.startX;
+      const dy = y - drag.startY;
+      const { origin } = drag;
+
+      if (drag.mode === 'draw') {
+        draftRef.current = normalizeBox({ ymin: drag.startY, xmin: drag.startX, ymax: y, xmax: x });
+        setDraftBox(draftRef.current);
+      } else if (drag.mode === 'move') {
+        // Shift the box without letting it leave the image
+        const shiftX = Math.min(1000 - origin.xmax, Math.max(-origin.xmin, dx));
+        const shiftY = Math.min(1000 - origin.ymax, Math.max(-origin.ymin, dy));
+        replaceTag(drag.tagIndex, normalizeBox({
+          ymin: origin.ymin + shiftY,
+          xmin: origin.xmin + shiftX,
+          ymax: origin.ymax + shiftY,
+          xmax: origin.xmax + shiftX,
+        }));
+      } else {
+        replaceTag(drag.tagIndex, normalizeBox({ ...origin, ymax: origin.ymax + dy, xmax: origin.xmax + dx }));
+      }
+    };
+
+    const handleUp = () => {
+      if (drag.mode === 'draw') {
+        if (draftRef.current) {
+          insertAtCursor(formatTag('CROP', draftRef.current));
+        }
+        draftRef.current = null;
+        setDraftBox(null);
+        setDrawMode(false);
+      }
+      setDrag(null);
+    };
+
+    window.addEventListener('mousemove', handleMove);
+    window.addEventListener('mouseup', handleUp);
+    return () => {
+      window.removeEventListener('mousemove', handleMove);
+      window.removeEventListener('mouseup', handleUp);
+    };
+  }, [drag]);
+
+  const startDrag = (event: React.MouseEvent, mode: DragMode, tagIndex: number, origin: CropBox) => {
+    event.preventDefault();
+    event.stopPropagation();
+    const { x, y } = toCoords(event.clientX, event.clientY);
+    setSelectedTag(tagIndex >= 0 ? tagIndex : null);
+    setDrag({ mode, tagIndex, startX: x, startY: y, origin });
+  };
+
+  const handleImageMouseDown = (event: React.MouseEvent) => {
+    if (!drawMode) {
+      setSelectedTag(null);
+      return;
+    }
+    const { x, y } = toCoords(event.clientX, event.clientY);
+    startDrag(event, 'draw', -1, { ymin: y, xmin: x, ymax: y, xmax: x });
+  };
+
+  const handleSave = () => {
+    // Unedited text keeps the blocks as they are, rather than a copy read back from the text
+    if (item.blocks && text === blocksToText(item.blocks)) {
+      onSave(item.id, item.blocks);
+      return;
+    }
+    onSave(item.id, carryOverConfidence(item.blocks ?? [], parseTextToBlocks(text)));
+  };
+
+  const renderBox = (box: CropBox, key: React.Key, className: string, children?: React.ReactNode, onMouseDown?: (e: React.MouseEvent) => void) => (
+    <div
+      key={key}
+      className={`absolute border-2 ${className}`}
+      style={{
+        top: `${box.ymin / 10}%`,
+        left: `${box.xmin / 10}%`,
+        height: `${(box.ymax - box.ymin) / 10}%`,
+        width: `${(box.xmax - box.xmin) / 10}%`,
+      }}
+      onMouseDown={onMouseDown}
+    >
+      {children}
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-900/60 backdrop-blur-sm flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-7xl h-full max-h-[92vh] flex flex-col overflow-hidden">
+
+        {/* Header */}
+        <div className="flex items-center justify-between px-6 py-4 border-b border-slate-200">
+          <div className="min-w-0">
+            <h2 className="text-base font-semibold text-slate-800 truncate">Review: {item.file.name}</h2>
+            <p className="text-xs text-slate-500">Drag boxes to move them, drag the corner to resize. Edit the text on the right.</p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-slate-400 hover:text-slate-600 p-1.5 rounded-md hover:bg-slate-50"
+            title="Close without saving"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        {/* Body */}
+        <div className="flex-1 min-h-0 grid grid-cols-1 lg:grid-cols-2">
+
+          {/* Image with crop overlays */}
+          <div className="overflow-auto bg-slate-100 p-4 border-r border-slate-200">
+            <div
+              ref={imageRef}
+              className={`relative inline-block select-none ${drawMode ? 'cursor-crosshair' : ''}`}
+              onMouseDown={handleImageMouseDown}
+            >
+              {/* Boxes refer to the image OCR ran on */}
+              <img src={item.processedPreviewUrl ?? item.previewUrl} alt="Source" className="block max-w-full" draggable={false} />
+              {tags.map((tag, index) => renderBox(
+                tag.box,
+                `${index}-${tag.start}`,
+                `${index === selectedTag ? 'border-indigo-600 bg-indigo-500/20' : tag.kind === 'EQ' ? 'border-emerald-500 bg-emerald-400/10' : 'border-amber-500 bg-amber-400/10'} cursor-move`,
+                <>
+                  <span className="absolute -top-5 left-0 text-[10px] font-mono bg-white/90 px-1 rounded text-slate-600">
+                    {tag.kind} {index + 1}
+                  </span>
+                  <span
+                    className="absolute -bottom-1.5 -right-1.5 w-3 h-3 bg-white border-2 border-indigo-600 rounded-sm cursor-se-resize"
+                    onMouseDown={e => startDrag(e, 'resize', index, tag.box)}
+                  />
+                </>,
+                e => startDrag(e, 'move', index, tag.box)
+              ))}
+              {draftBox && renderBox(draftBox, 'draft', 'border-dashed border-indigo-600 bg-indigo-500/10')}
+            </div>
+          </div>
+
+          {/* Text editor */}
+          <div className="flex flex-col min-h-0">
+            <div className="flex items-center gap-1 px-4 py-2 border-b border-slate-100">
+              <Button variant="ghost" className="px-3 py-1.5 text-sm" onClick={() => insertLinePrefix('# ')} title="Make heading">
+                <Heading size={16} />
+              </Button>
+              <Button variant="ghost" className="px-3 py-1.5 text-sm" onClick={() => insertLinePrefix('- ')} title="Make list item">
+                <List size={16} />
+              </Button>
+              <Button variant="ghost" className="px-3 py-1.5 text-sm" onClick={() => insertLinePrefix('1. ')} title="Make numbered list item">
+                <ListOrdered size={16} />
+              </Button>
+              <Button variant="ghost" className="px-3 py-1.5 text-sm" onClick={() => wrapSelection('**')} title="Bold selection">
+                <Bold size={16} />
+              </Button>
+              <Button variant="ghost" className="px-3 py-1.5 text-sm" onClick={() => wrapSelection('*')} title="Italic selection">
+                <Italic size={16} />
+              </Button>
+              <Button variant="ghost" className="px-3 py-1.5 text-sm" onClick={() => wrapSelection('<u>', '</u>')} title="Underline selection">
+                <Underline size={16} />
+              </Button>
+              <Button variant="ghost" className="px-3 py-1.5 text-sm" onClick={() => wrapSelection('<?>', '</?>')} title="Mark selection as uncertain">
+                <Highlighter size={16} />
+              </Button>
+              <Button
+                variant={drawMode ? 'primary' : 'ghost'}
+                className="px-3 py-1.5 text-sm"
+                onClick={() => setDrawMode(prev => !prev)}
+                title="Draw a new crop box on the image; it is inserted at the cursor"
+                icon={<Crop size={16} />}
+              >
+                Add crop
+              </Button>
+              {selectedTag !== null && (
+                <Button
+                  variant="ghost"
+                  className="px-3 py-1.5 text-sm text-red-500 hover:text-red-600 hover:bg-red-50"
+                  onClick={() => deleteTag(selectedTag)}
+                  icon={<Trash2 size={16} />}
+                >
+                  Delete {tags[selectedTag]?.kind ?? 'box'} {selectedTag + 1}
+                </Button>
+              )}
+              {uncertain.length > 0 && (
+                <Button
+                  variant="ghost"
+                  className="ml-auto px-3 py-1.5 text-sm text-amber-700 hover:bg-amber-50"
+                  onClick={selectNextUncertain}
+                  title="Select the next uncertain reading"
+                  icon={<ChevronDown size={16} />}
+                >
+                  {uncertain.length} uncertain
+                </Button>
+              )}
+            </div>
+            {/* Both layers always show a scrollbar, so their text wraps at the same width */}
+            <div className="relative flex-1 min-h-[300px]">
+              <div
+                ref={backdropRef}
+                aria-hidden
+                className="absolute inset-0 overflow-y-scroll p-4 font-mono text-sm leading-relaxed text-transparent whitespace-pre-wrap break-words pointer-events-none"
+              >
+                {renderHighlights()}
+              </div>
+              <textarea
+                ref={textareaRef}
+                className="absolute inset-0 h-full w-full resize-none overflow-y-scroll p-4 font-mono text-sm leading-relaxed text-slate-700 bg-transparent focus:outline-none"
+                value={text}
+                onChange={e => setText(e.target.value)}
+                onScroll={e => { backdropRef.current!.scrollTop = e.currentTarget.scrollTop; }}
+                spellCheck={false}
+              />
+            </div>
+          </div>
+        </div>
+
+        {/* Footer */}
+        <div className="flex items-center justify-end gap-3 px-6 py-4 border-t border-slate-200">
+          <Button variant="secondary" onClick={onClose}>Cancel</Button>
+          <Button variant="primary" onClick={handleSave} icon={<Save size={18} />}>Save changes</Button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,769 @@
+import React, { useRef, useState } from 'react';
+import { AppSettings, CropRefinement, ExtractionOptions, PromptProfile, FormulaMode, LayoutSettings, PreprocessSettings, OcrProviderType, PageMargins, PageOrientation, PageSize, RunningHeaderMode, SourceSeparation, StyleTemplate, UncertainWordMarking } from '../types';
+import { readStyleTemplate } from '../services/styleTemplateService';
+import { loadSessionApiKey, saveSessionApiKey } from '../services/settingsService';
+import { OCR_PROXY_URL } from '../services/ocrProvider';
+import { ProfileManager } from './ProfileManager';
+import { FileText, Settings, X } from 'lucide-react';
+
+interface SettingsPanelProps {
+  settings: AppSettings;
+  onChange: (settings: AppSettings) => void;
+  styleTemplate: StyleTemplate | null;
+  onStyleTemplateChange: (template: StyleTemplate | null) => void; // Throws when the template cannot be stored
+  customProfiles: PromptProfile[];
+  onCustomProfilesChange: (profiles: PromptProfile[]) => void;
+  onClose: () => void;
+}
+
+const inputStyles = "w-full rounded-lg border border-slate-200 px-3 py-2 text-sm text-slate-700 focus:outline-none focus:ring-2 focus:ring-indigo-500";
+const labelStyles = "block text-xs font-semibold text-slate-500 uppercase tracking-wide mb-1";
+
+const MARGIN_FIELDS: { field: keyof PageMargins; label: string }[] = [
+  { field: 'top', label: 'Top' },
+  { field: 'right', label: 'Right' },
+  { field: 'bottom', label: 'Bottom' },
+  { field: 'left', label: 'Left' },
+];
+
+// Offered as expected languages; the prompt names them, so any language the model knows would work
+const LANGUAGES = ['Vietnamese', 'English', 'French', 'German', 'Russian', 'Chinese', 'Japanese', 'Korean'];
+
+const PREPROCESS_STEPS: { field: keyof Omit<PreprocessSettings, 'enabled' | 'maxDimension'>; label: string }[] = [
+  { field: 'autoRotate', label: 'Auto-rotate (EXIF)' },
+  { field: 'perspective', label: 'Perspective correction' },
+  { field: 'deskew', label: 'Deskew' },
+  { field: 'grayscale', label: 'Grayscale' },
+  { field: 'contrast', label: 'Enhance contrast' },
+  { field: 'threshold', label: 'Black & white' },
+];
+
+const clamp = (value: number, min: number, max: number, fallback: number) =>
+  Number.isFinite(value) && value > 0 ? Math.min(max, Math.max(min, value)) : fallback;
+
+export const SettingsPanel: React.FC<SettingsPanelProps> = ({
+  settings,
+  onChange,
+  styleTemplate,
+  onStyleTemplateChange,
+  customProfiles,
+  onCustomProfilesChange,
+  onClose
+}) => {
+  const templateInputRef = useRef<HTMLInputElement>(null);
+  const [apiKey, setApiKey] = useState(() => loadSessionApiKey(OcrProviderType.GEMINI));
+  const [localApiKey, setLocalApiKey] = useState(() => loadSessionApiKey(OcrProviderType.LOCAL));
+  const { layout } = settings;
+
+  const updateApiKey = (value: string) => {
+    setApiKey(value);
+    saveSessionApiKey(OcrProviderType.GEMINI, value.trim());
+  };
+
+  const updateLocalApiKey = (value: string) => {
+    setLocalApiKey(value);
+    saveSessionApiKey(OcrProviderType.LOCAL, value.trim());
+  };
+
+  const updateLocal = (field: keyof AppSettings['local'], value: string) => {
+    onChange({ ...settings, local: { ...settings.local, [field]: value } });
+  };
+
+  const updateExtraction = (changes: Partial<ExtractionOptions>) => {
+    onChange({ ...settings, extraction: { ...settings.extraction, ...changes } });
+  };
+
+  const toggleLanguage = (language: string) => {
+    const { languages } = settings.extraction;
+    updateExtraction({
+      languages: languages.includes(language) ? languages.filter(l => l !== language) : [...languages, language],
+    });
+  };
+
+  const updatePreprocess = (changes: Partial<PreprocessSettings>) => {
+    onChange({ ...settings, preprocess: { ...settings.preprocess, ...changes } });
+  };
+
+  const updateLayout = (changes: Partial<LayoutSettings>) => {
+    onChange({ ...settings, layout: { ...layout, ...changes } });
+  };
+
+  const updateCropRefinement = (changes: Partial<CropRefinement>) => {
+    updateLayout({ cropRefinement: { ...layout.cropRefinement, ...changes } });
+  };
+
+  const handleTemplateSelect = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      onStyleTemplateChange(await readStyleTemplate(file));
+    } catch (error) {
+      alert("Could not use the template: " + (error instanceof Error ? error.message : "Unknown error"));
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm border border-slate-200 p-6 mb-8">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="flex items-center gap-2 text-base font-semibold text-slate-800">
+          <Settings size={18} className="text-indigo-600" />
+          Settings
+        </h2>
+        <button
+          onClick={onClose}
+          className="text-slate-400 hover:text-slate-600 p-1.5 rounded-md hover:bg-slate-50"
+          title="Close settings"
+        >
+          <X size={18} />
+        </button>
+      </div>
+
+      <div className="space-y-4">
+        <div>
+          <label className={labelStyles}>OCR Provider</label>
+          <select
+            className={inputStyles}
+            value={settings.provider}
+            onChange={e => onChange({ ...settings, provider: e.target.value as OcrProviderType })}
+          >
+            <option value={OcrProviderType.GEMINI}>Gemini (Google Cloud)</option>
+            <option value={OcrProviderType.LOCAL}>Local / OpenAI-compatible endpoint</option>
+          </select>
+          {settings.provider === OcrProviderType.GEMINI && OCR_PROXY_URL && (
+            <p className="mt-1 text-xs text-slate-500">
+              Images are sent to Gemini through this site's OCR server, which holds the API key.
+            </p>
+          )}
+        </div>
+
+        {settings.provider === OcrProviderType.GEMINI && !OCR_PROXY_URL && (
+          <div>
+            <label className={labelStyles}>Gemini API Key</label>
+            <input
+              type="password"
+              className={inputStyles}
+              value={apiKey}
+              placeholder="AIza..."
+              autoComplete="off"
+              onChange={e => updateApiKey(e.target.value)}
+            />
+            <p className="mt-1 text-xs text-slate-500">
+              Your own key from Google AI Studio. It is kept in this tab's session storage only, sent only to Google, and forgotten when the tab closes.
+            </p>
+          </div>
+        )}
+
+        {settings.provider === OcrProviderType.LOCAL && (
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div className="sm:col-span-2">
+              <label className={labelStyles}>Endpoint URL</label>
+              <input
+                type="url"
+                className={inputStyles}
+                value={settings.local.endpoint}
+                placeholder="http://localhost:11434/v1"
+                onChange={e => updateLocal('endpoint', e.target.value)}
+              />
+            </div>
+            <div>
+              <label className={labelStyles}>Model</label>
+              <input
+                type="text"
+                className={inputStyles}
+                value={settings.local.model}
+                placeholder="llava"
+                onChange={e => updateLocal('model', e.target.value)}
+              />
+            </div>
+            <div>
+              <label className={labelStyles}>API Key (optional)</label>
+              <input
+                type="password"
+                className={inputStyles}
+                value={localApiKey}
+                autoComplete="off"
+                onChange={e => updateLocalApiKey(e.target.value)}
+              />
+            </div>
+            <p className="sm:col-span-2 text-xs text-slate-500">
+              Images are sent only to this endpoint. The model must accept image input and JSON schema output (response_format). The key is kept in this tab's session storage only.
+            </p>
+          </div>
+        )}
+
+        <ProfileManager
+          selectedId={settings.profileId}
+          onSelect={id => onChange({ ...settings, profileId: id })}
+          customProfiles={customProfiles}
+          onCustomProfilesChange={onCustomProfilesChange}
+        />
+
+        <div>
+          <label className={labelStyles}>Expected Languages</label>
+          <div className="flex flex-wrap gap-2">
+            {LANGUAGES.map(language => {
+              const selected = settings.extraction.languages.includes(language);
+              return (
+                <button
+                  key={language}
+                  type="button"
+                  onClick={() => toggleLanguage(language)}
+                  className={`px-2.5 py-1 rounded-full border text-xs font-medium transition-colors ${selected ? 'bg-indigo-50 border-indigo-300 text-indigo-700' : 'border-slate-200 text-slate-500 hover:border-slate-300'}`}
+                >
+                  {language}
+                </button>
+              );
+            })}
+          </div>
+          <p className="mt-1 text-xs text-slate-500">
+            Tells the model which languages to expect on mixed-language pages. None selected means it detects them itself. Accents and tone marks are always kept.
+          </p>
+        </div>
+
+        <label className="flex items-start gap-3 cursor-pointer">
+          <input
+            type="checkbox"
+            className="mt-1 h-4 w-4 rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+            checked={settings.extraction.handwriting}
+            onChange={e => updateExtraction({ handwriting: e.target.checked })}
+          />
+          <span>
+            <span className="block text-sm font-medium text-slate-700">Handwriting mode</span>
+            <span className="block text-xs text-slate-500">
+              Default prompt for new images: reads handwritten notes in context and gives a best guess instead of [Illegible]. Each image card can switch between printed and handwritten before it is processed.
+            </span>
+          </span>
+        </label>
+
+        <label className="flex items-start gap-3 cursor-pointer">
+          <input
+            type="checkbox"
+            className="mt-1 h-4 w-4 rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+            checked={settings.extraction.markUncertain}
+            onChange={e => updateExtraction({ markUncertain: e.target.checked })}
+          />
+          <span>
+            <span className="block text-sm font-medium text-slate-700">Flag uncertain words</span>
+            <span className="block text-xs text-slate-500">
+              Words the model is unsure of are highlighted in the review editor as <code>&lt;?&gt;word&lt;/?&gt;</code>; remove the marks once checked.
+            </span>
+          </span>
+        </label>
+
+        <div>
+          <label className={labelStyles}>Math Formulas</label>
+          <select
+            className={inputStyles}
+            value={settings.extraction.formulaMode}
+            onChange={e => updateExtraction({ formulaMode: e.target.value as FormulaMode })}
+          >
+            <option value={FormulaMode.CROP}>Crop as images</option>
+            <option value={FormulaMode.LATEX}>Editable Word equations (LaTeX)</option>
+          </select>
+          <p className="mt-1 text-xs text-slate-500">
+            Equations that cannot be converted are still embedded as cropped images.
+          </p>
+        </div>
+
+        <label className="flex items-start gap-3 cursor-pointer">
+          <input
+            type="checkbox"
+            className="mt-1 h-4 w-4 rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+            checked={settings.extraction.chemistryMode}
+            onChange={e => updateExtraction({ chemistryMode: e.target.checked })}
+          />
+          <span>
+            <span className="block text-sm font-medium text-slate-700">Chemistry mode</span>
+            <span className="block text-xs text-slate-500">
+              Linear formulas (H2SO4) become text with subscripts; structures are redrawn from SMILES, keeping the crop as fallback.
+            </span>
+          </span>
+        </label>
+
+        <label className="flex items-start gap-3 cursor-pointer">
+          <input
+            type="checkbox"
+            className="mt-1 h-4 w-4 rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+            checked={settings.extraction.linePositions}
+            onChange={e => updateExtraction({ linePositions: e.target.checked })}
+          />
+          <span>
+            <span className="block text-sm font-medium text-slate-700">Record line positions</span>
+            <span className="block text-xs text-slate-500">
+              Needed to align the text layer of searchable PDFs with the scan. Uses more output tokens per image.
+            </span>
+          </span>
+        </label>
+
+        <div className="space-y-3">
+          <label className="flex items-start gap-3 cursor-pointer">
+            <input
+              type="checkbox"
+              className="mt-1 h-4 w-4 rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+              checked={settings.preprocess.enabled}
+              onChange={e => updatePreprocess({ enabled: e.target.checked })}
+            />
+            <span>
+              <span className="block text-sm font-medium text-slate-700">Pre-process images before OCR</span>
+              <span className="block text-xs text-slate-500">
+                Cleans up phone photos of pages. The processed image is what OCR reads and what crops are cut from; each card can show it before and after.
+              </span>
+            </span>
+          </label>
+
+          {settings.preprocess.enabled && (
+            <div className="pl-7 space-y-3">
+              <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+                {PREPROCESS_STEPS.map(({ field, label }) => (
+                  <label key={field} className="flex items-center gap-2 cursor-pointer text-sm text-slate-700">
+                    <input
+                      type="checkbox"
+                      className="h-4 w-4 rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+                      checked={settings.preprocess[field]}
+                      onChange={e => updatePreprocess({ [field]: e.target.checked })}
+                    />
+                    {label}
+                  </label>
+                ))}
+              </div>
+              <div>
+                <label className={labelStyles}>Max Resolution (px, longest side)</label>
+                <input
+                  type="number"
+                  min={800}
+                  max={8000}
+                  step={100}
+                  className={inputStyles}
+                  value={settings.preprocess.maxDimension}
+                  onChange={e => updatePreprocess({ maxDimension: clamp(Number(e.target.value), 800, 8000, settings.preprocess.maxDimension) })}
+                />
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div>
+          <label className={labelStyles}>PDF Resolution (DPI)</label>
+          <input
+            type="number"
+            min={72}
+            max={600}
+            step={25}
+            className={inputStyles}
+            value={settings.pdfDpi}
+            onChange={e => onChange({ ...settings, pdfDpi: Math.min(600, Math.max(72, Number(e.target.value) || 200)) })}
+          />
+          <p className="mt-1 text-xs text-slate-500">
+            PDF pages are rendered to images at this resolution for OCR and cropping. Higher is sharper but slower.
+          </p>
+        </div>
+
+        <div className="space-y-3">
+          <div>
+            <label className={labelStyles}>Crop Padding (0-1000 scale)</label>
+            <input
+              type="number"
+              min={0}
+              max={50}
+              className={inputStyles}
+              value={settings.crops.padding}
+              onChange={e => onChange({ ...settings, crops: { ...settings.crops, padding: clamp(Number(e.target.value), 0, 50, 0) } })}
+            />
+            <p className="mt-1 text-xs text-slate-500">
+              Margin added around every cropped figure and equation, so tight boxes do not cut off edges. 10 is 1% of the image.
+            </p>
+          </div>
+          <label className="flex items-start gap-3 cursor-pointer">
+            <input
+              type="checkbox"
+              className="mt-1 h-4 w-4 rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+              checked={settings.crops.mergeOverlapping}
+              onChange={e => onChange({ ...settings, crops: { ...settings.crops, mergeOverlapping: e.target.checked } })}
+            />
+            <span>
+              <span className="block text-sm font-medium text-slate-700">Merge overlapping crops</span>
+              <span className="block text-xs text-slate-500">
+                Joins consecutive crops whose boxes overlap, such as a figure returned in two parts.
+              </span>
+            </span>
+          </label>
+          <label className="flex items-start gap-3 cursor-pointer">
+            <input
+              type="checkbox"
+              className="mt-1 h-4 w-4 rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+              checked={settings.crops.reaskInvalid}
+              onChange={e => onChange({ ...settings, crops: { ...settings.crops, reaskInvalid: e.target.checked } })}
+            />
+            <span>
+              <span className="block text-sm font-medium text-slate-700">Re-ask for unusable crops</span>
+              <span className="block text-xs text-slate-500">
+                Boxes out of range or inverted are always fixed. When one still has no area, the model is asked again with just that part of the image (an extra request per box); otherwise it is exported as [MISSING IMAGE].
+              </span>
+            </span>
+          </label>
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div>
+            <label className={labelStyles}>Parallel Requests</label>
+            <input
+              type="number"
+              min={1}
+              max={10}
+              className={inputStyles}
+              value={settings.queue.concurrency}
+              onChange={e => onChange({ ...settings, queue: { ...settings.queue, concurrency: Math.min(10, Math.max(1, Number(e.target.value) || 1)) } })}
+            />
+          </div>
+          <div>
+            <label className={labelStyles}>Max Retries</label>
+            <input
+              type="number"
+              min={0}
+              max={10}
+              className={inputStyles}
+              value={settings.queue.maxRetries}
+              onChange={e => onChange({ ...settings, queue: { ...settings.queue, maxRetries: Math.min(10, Math.max(0, Number(e.target.value) || 0)) } })}
+            />
+          </div>
+          <p className="sm:col-span-2 -mt-2 text-xs text-slate-500">
+            Rate limits (429), server errors and network failures are retried with exponential backoff.
+          </p>
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <label className="flex items-start gap-3 cursor-pointer">
+            <input
+              type="checkbox"
+              className="mt-1 h-4 w-4 rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+              checked={settings.budget.enabled}
+              onChange={e => onChange({ ...settings, budget: { ...settings.budget, enabled: e.target.checked } })}
+            />
+            <span>
+              <span className="block text-sm font-medium text-slate-700">Budget per run</span>
+              <span className="block text-xs text-slate-500">
+                Pauses "Process All" before an image would take its estimated spend over the limit.
+              </span>
+            </span>
+          </label>
+          <div>
+            <label className={labelStyles}>Budget (USD)</label>
+            <input
+              type="number"
+              min={0.01}
+              step={0.05}
+              className={inputStyles}
+              value={settings.budget.limitUsd}
+              disabled={!settings.budget.enabled}
+              onChange={e => {
+                const value = Number(e.target.value);
+                if (Number.isFinite(value) && value > 0) onChange({ ...settings, budget: { ...settings.budget, limitUsd: value } });
+              }}
+            />
+          </div>
+          <p className="sm:col-span-2 -mt-2 text-xs text-slate-500">
+            Costs use published Gemini prices and the token counts the API reports. Self-hosted models count as free.
+          </p>
+        </div>
+
+        <div className="pt-4 border-t border-slate-100 space-y-4">
+          <h3 className="text-sm font-semibold text-slate-800">Document Layout</h3>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+              <label className={labelStyles}>Page Size</label>
+              <select
+                className={inputStyles}
+                value={layout.pageSize}
+                onChange={e => updateLayout({ pageSize: e.target.value as PageSize })}
+              >
+                <option value={PageSize.A4}>A4 (210 × 297 mm)</option>
+                <option value={PageSize.LETTER}>US Letter (8.5 × 11 in)</option>
+                <option value={PageSize.CUSTOM}>Custom</option>
+              </select>
+            </div>
+            <div>
+              <label className={labelStyles}>Orientation</label>
+              <select
+                className={inputStyles}
+                value={layout.orientation}
+                onChange={e => updateLayout({ orientation: e.target.value as PageOrientation })}
+              >
+                <option value={PageOrientation.PORTRAIT}>Portrait</option>
+                <option value={PageOrientation.LANDSCAPE}>Landscape</option>
+              </select>
+            </div>
+            {layout.pageSize === PageSize.CUSTOM && (
+              <>
+                <div>
+                  <label className={labelStyles}>Width (mm)</label>
+                  <input
+                    type="number"
+                    min={50}
+                    max={1000}
+                    className={inputStyles}
+                    value={layout.customWidthMm}
+                    onChange={e => updateLayout({ customWidthMm: clamp(Number(e.target.value), 50, 1000, layout.customWidthMm) })}
+                  />
+                </div>
+                <div>
+                  <label className={labelStyles}>Height (mm)</label>
+                  <input
+                    type="number"
+                    min={50}
+                    max={1000}
+                    className={inputStyles}
+                    value={layout.customHeightMm}
+                    onChange={e => updateLayout({ customHeightMm: clamp(Number(e.target.value), 50, 1000, layout.customHeightMm) })}
+                  />
+                </div>
+              </>
+            )}
+          </div>
+
+          <div>
+            <label className={labelStyles}>Margins (mm)</label>
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+              {MARGIN_FIELDS.map(({ field, label }) => (
+                <input
+                  key={field}
+                  type="number"
+                  min={0}
+                  max={100}
+                  step={0.1}
+                  title={`${label} margin`}
+                  placeholder={label}
+                  className={inputStyles}
+                  value={layout.margins[field]}
+                  onChange={e => updateLayout({ margins: { ...layout.margins, [field]: Math.min(100, Math.max(0, Number(e.target.value) || 0)) } })}
+                />
+              ))}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+              <label className={labelStyles}>Font</label>
+              <input
+                type="text"
+                className={inputStyles}
+                value={layout.fontFamily}
+                placeholder="Calibri"
+                onChange={e => updateLayout({ fontFamily: e.target.value })}
+              />
+            </div>
+            <div>
+              <label className={labelStyles}>Font Size (pt)</label>
+              <input
+                type="number"
+                min={6}
+                max={72}
+                className={inputStyles}
+                value={layout.fontSizePt}
+                onChange={e => updateLayout({ fontSizePt: clamp(Number(e.target.value), 6, 72, layout.fontSizePt) })}
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className={labelStyles}>Between Images</label>
+            <select
+              className={inputStyles}
+              value={layout.sourceSeparation}
+              onChange={e => updateLayout({ sourceSeparation: e.target.value as SourceSeparation })}
+            >
+              <option value={SourceSeparation.CONTINUOUS}>Continuous flow</option>
+              <option value={SourceSeparation.PAGE_BREAK}>Page break</option>
+              <option value={SourceSeparation.SECTION}>Separate section with file name header and page numbers</option>
+            </select>
+            <p className="mt-1 text-xs text-slate-500">
+              Section headers and footers are written to Word documents only; other paged formats use a page break.
+            </p>
+          </div>
+
+          <div>
+            <label className={labelStyles}>Uncertain Words in Word</label>
+            <select
+              className={inputStyles}
+              value={layout.uncertainWords}
+              onChange={e => updateLayout({ uncertainWords: e.target.value as UncertainWordMarking })}
+            >
+              <option value={UncertainWordMarking.NONE}>Not marked</option>
+              <option value={UncertainWordMarking.HIGHLIGHT}>Yellow highlight</option>
+              <option value={UncertainWordMarking.COMMENT}>Comment on each word</option>
+            </select>
+            <p className="mt-1 text-xs text-slate-500">
+              How words still flagged as uncertain appear in .docx exports. Other formats export them as plain text.
+            </p>
+          </div>
+
+          <label className="flex items-start gap-3 cursor-pointer">
+            <input
+              type="checkbox"
+              className="mt-1 h-4 w-4 rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+              checked={layout.confidenceComments}
+              onChange={e => updateLayout({ confidenceComments: e.target.checked })}
+            />
+            <span>
+              <span className="block text-sm font-medium text-slate-700">Comment on low-confidence passages</span>
+              <span className="block text-xs text-slate-500">
+                Adds a Word comment naming the image and page region to each passage the model was not confident about, so reviewers can step through them in Word's review pane. Passages edited in the review editor count as checked.
+              </span>
+            </span>
+          </label>
+
+          <div className="space-y-3">
+            <label className="flex items-start gap-3 cursor-pointer">
+              <input
+                type="checkbox"
+                className="mt-1 h-4 w-4 rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+                checked={layout.cropRefinement.trim}
+                onChange={e => updateCropRefinement({ trim: e.target.checked })}
+              />
+              <span>
+                <span className="block text-sm font-medium text-slate-700">Fit crops to their content</span>
+                <span className="block text-xs text-slate-500">
+                  Trims white space around cropped figures and equations, and extends crops that cut off the edge of their content.
+                </span>
+              </span>
+            </label>
+            {layout.cropRefinement.trim && (
+              <div className="pl-7">
+                <label className={labelStyles}>Margin around content (px)</label>
+                <input
+                  type="number"
+                  min={0}
+                  max={50}
+                  className={inputStyles}
+                  value={layout.cropRefinement.marginPx}
+                  onChange={e => updateCropRefinement({ marginPx: clamp(Number(e.target.value), 0, 50, 0) })}
+                />
+              </div>
+            )}
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+              <label className="flex items-center gap-2 cursor-pointer text-sm text-slate-700">
+                <input
+                  type="checkbox"
+                  className="h-4 w-4 rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+                  checked={layout.cropRefinement.upscaleSmall}
+                  onChange={e => updateCropRefinement({ upscaleSmall: e.target.checked })}
+                />
+                Upscale small crops
+              </label>
+              <label className="flex items-center gap-2 cursor-pointer text-sm text-slate-700">
+                <input
+                  type="checkbox"
+                  className="h-4 w-4 rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+                  checked={layout.cropRefinement.transparent}
+                  onChange={e => updateCropRefinement({ transparent: e.target.checked })}
+                />
+                Transparent background
+              </label>
+            </div>
+          </div>
+
+          <div>
+            <label className={labelStyles}>Running Headers &amp; Footers</label>
+            <select
+              className={inputStyles}
+              value={layout.runningHeaders}
+              onChange={e => updateLayout({ runningHeaders: e.target.value as RunningHeaderMode })}
+            >
+              <option value={RunningHeaderMode.DROP}>Leave out</option>
+              <option value={RunningHeaderMode.MOVE}>Move to the page header and footer</option>
+              <option value={RunningHeaderMode.KEEP}>Keep in the text</option>
+            </select>
+            <p className="mt-1 text-xs text-slate-500">
+              Repeated page headers, footers and page numbers found on the scans. Formats without page headers put moved ones at the top and bottom of each image's text.
+            </p>
+          </div>
+
+          <label className="flex items-start gap-3 cursor-pointer">
+            <input
+              type="checkbox"
+              className="mt-1 h-4 w-4 rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+              checked={layout.recreateColumns}
+              onChange={e => updateLayout({ recreateColumns: e.target.checked })}
+            />
+            <span>
+              <span className="block text-sm font-medium text-slate-700">Recreate columns</span>
+              <span className="block text-xs text-slate-500">
+                Word documents set multi-column pages in columns, breaking where the scan does. Other formats keep the text in reading order in one column.
+              </span>
+            </span>
+          </label>
+
+          <label className="flex items-start gap-3 cursor-pointer">
+            <input
+              type="checkbox"
+              className="mt-1 h-4 w-4 rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+              checked={layout.tableOfContents}
+              onChange={e => updateLayout({ tableOfContents: e.target.checked })}
+            />
+            <span>
+              <span className="block text-sm font-medium text-slate-700">Table of contents</span>
+              <span className="block text-xs text-slate-500">
+                Word documents start with a contents list of the source and content headings. Word asks to update fields when the file is opened to fill it in.
+              </span>
+            </span>
+          </label>
+
+          <label className="flex items-center gap-3 cursor-pointer">
+            <input
+              type="checkbox"
+              className="h-4 w-4 rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+              checked={layout.includeTitle}
+              onChange={e => updateLayout({ includeTitle: e.target.checked })}
+            />
+            <span className="text-sm font-medium text-slate-700">Add an "Extracted Content" title</span>
+          </label>
+
+          <label className="flex items-center gap-3 cursor-pointer">
+            <input
+              type="checkbox"
+              className="h-4 w-4 rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+              checked={layout.includeSourceHeaders}
+              onChange={e => updateLayout({ includeSourceHeaders: e.target.checked })}
+            />
+            <span className="text-sm font-medium text-slate-700">Show the source file name before each image's text</span>
+          </label>
+
+          <div>
+            <label className={labelStyles}>Word Style Template</label>
+            <div className="flex items-center gap-2">
+              <span className="flex-1 flex items-center gap-2 min-w-0 text-sm text-slate-700">
+                <FileText size={16} className="text-slate-400 shrink-0" />
+                <span className="truncate">{styleTemplate ? styleTemplate.name : 'None'}</span>
+              </span>
+              <button
+                onClick={() => templateInputRef.current?.click()}
+                className="text-sm font-medium text-indigo-600 hover:text-indigo-700 px-2 py-1 rounded-md hover:bg-indigo-50"
+              >
+                {styleTemplate ? 'Replace' : 'Upload .docx'}
+              </button>
+              {styleTemplate && (
+                <button
+                  onClick={() => onStyleTemplateChange(null)}
+                  className="text-sm font-medium text-slate-500 hover:text-red-600 px-2 py-1 rounded-md hover:bg-red-50"
+                >
+                  Remove
+                </button>
+              )}
+              <input
+                ref={templateInputRef}
+                type="file"
+                accept=".docx,application/vnd.openxmlformats-officedocument.wordprocessingml.document"
+                className="hidden"
+                onChange={handleTemplateSelect}
+              />
+            </div>
+            <p className="mt-1 text-xs text-slate-500">
+              Word exports use the template's styles (headings, fonts, spacing) in place of the font settings above. Page size and margins still apply.
+            </p>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
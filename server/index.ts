@@ -0,0 +1,176 @@
+import { existsSync } from "node:fs";
+import express, { NextFunction, Request, Response } from "express";
+import { ExtractionOptions, FormulaMode } from "../types";
+import { DEFAULT_GEMINI_MODEL, GEMINI_IMAGE_TYPES, createGeminiProvider } from "../services/geminiService";
+import type { ProxyExtractRequest } from "../services/proxyOcrService";
+import { importProfiles } from "../services/promptProfiles";
+import { DEFAULT_SETTINGS } from "../services/settingsService";
+import { getErrorStatus } from "../services/errors";
+import { getCost } from "../services/usageService";
+import { createRateLimiter } from "./rateLimit";
+
+// Proxy server that holds the Gemini API key, so it is never part of the browser bundle.
+// The app posts each image to /api/extract; the server runs the same Gemini provider the app
+// would and returns the validated blocks. Configured through environment variables (see README).
+
+if (existsSync('.env.local')) {
+  process.loadEnvFile('.env.local');
+}
+
+const readNumber = (name: string, fallback: number): number => {
+  const value = Number(process.env[name]);
+  return process.env[name] && Number.isFinite(value) && value > 0 ? value : fallback;
+};
+
+const apiKey = process.env.GEMINI_API_KEY;
+if (!apiKey) {
+  console.error("Set GEMINI_API_KEY (in the environment or .env.local) before starting the server.");
+  process.exit(1);
+}
+
+const PORT = readNumber('PORT', 8787);
+const MAX_IMAGE_BYTES = readNumber('MAX_IMAGE_MB', 10) * 1024 * 1024;
+// Models clients may ask for; by default every Gemini model with a known price, so no client can pick an arbitrary costly one
+const ALLOWED_MODELS = process.env.ALLOWED_MODELS?.split(',').map(model => model.trim()).filter(Boolean);
+// Clients convert other image types to PNG before sending (toAcceptedImage)
+const IMAGE_TYPES = GEMINI_IMAGE_TYPES;
+// Prompts longer than this are refused; the presets are a few hundred characters
+const MAX_PROMPT_LENGTH = 20000;
+
+const provider = createGeminiProvider(apiKey);
+const limiter = createRateLimiter([
+  { windowMs: 60 * 1000, max: readNumber('RATE_LIMIT_PER_MINUTE', 20) },
+  { windowMs: 24 * 60 * 60 * 1000, max: readNumber('RATE_LIMIT_PER_DAY', 500) },
+]);
+setInterval(() => limiter.prune(), 10 * 60 * 1000).unref();
+
+class RequestError extends Error {
+  constructor(message: string, readonly status = 400) {
+    super(message);
+    this.name = 'RequestError';
+  }
+}
+
+const isModelAllowed = (model: string): boolean =>
+  ALLOWED_MODELS ? ALLOWED_MODELS.includes(model) : getCost(model, 0, 0) !== null;
+
+const FORMULA_MODES = new Set<string>(Object.values(FormulaMode));
+
+/**
+ * Keeps the known extraction options with the right types; anything else falls back to the defaults
+ */
+const readOptions = (raw: unknown): ExtractionOptions => {
+  const value = (typeof raw === 'object' && raw !== null ? raw : {}) as Record<string, unknown>;
+  const defaults = DEFAULT_SETTINGS.extraction;
+  const flag = (key: keyof ExtractionOptions) => typeof value[key] === 'boolean' ? value[key] as boolean : defaults[key] as boolean;
+  return {
+    formulaMode: FORMULA_MODES.has(value.formulaMode as string) ? value.formulaMode as FormulaMode : defaults.formulaMode,
+    chemistryMode: flag('chemistryMode'),
+    linePositions: flag('linePositions'),
+    languages: Array.isArray(value.languages)
+      ? value.languages.filter((language): language is string => typeof language === 'string').slice(0, 10)
+      : defaults.languages,
+    handwriting: flag('handwriting'),
+    markUncertain: flag('markUncertain'),
+  };
+};
+
+const readRequest = (body: Partial<ProxyExtractRequest> | undefined) => {
+  if (!body || typeof body.image !== 'string' || !body.image) {
+    throw new RequestError("The request has no image.");
+  }
+  if (typeof body.mimeType !== 'string' || !IMAGE_TYPES.has(body.mimeType)) {
+    throw new RequestError(`Unsupported image type (expected ${[...IMAGE_TYPES].join(', ')}).`);
+  }
+  const image = Buffer.from(body.image, 'base64');
+  if (image.length > MAX_IMAGE_BYTES) {
+    throw new RequestError(`The image is larger than ${MAX_IMAGE_BYTES / 1024 / 1024} MB.`, 413);
+  }
+
+  let profile;
+  try {
+    [profile] = importProfiles(JSON.stringify(body.profile));
+  } catch (error) {
+    throw new RequestError(`Invalid prompt profile: ${error instanceof Error ? error.message : error}`);
+  }
+  if (profile.systemInstruction.length + profile.userPrompt.length > MAX_PROMPT_LENGTH) {
+    throw new RequestError("The prompt profile is too long.");
+  }
+  const model = profile.model || DEFAULT_GEMINI_MODEL;
+  if (!isModelAllowed(model)) {
+    throw new RequestError(`The model "${model}" is not available on this server.`, 403);
+  }
+
+  return {
+    file: new File([image], 'upload', { type: body.mimeType }),
+    options: readOptions(body.options),
+    profile,
+  };
+};
+
+const app = express();
+// Behind a reverse proxy, TRUST_PROXY (e.g. "1") makes req.ip the client address rather than the proxy's
+if (process.env.TRUST_PROXY) {
+  app.set('trust proxy', Number(process.env.TRUST_PROXY) || process.env.TRUST_PROXY);
+}
+app.disable('x-powered-by');
+
+const api = express.Router();
+
+api.get('/health', (_req, res) => {
+  res.json({ ok: true });
+});
+
+api.post('/extract', (req, res, next) => {
+  const refusal = limiter.check(req.ip ?? 'unknown');
+  if (refusal) {
+    res.set('Retry-After', String(Math.ceil(refusal.retryAfterMs / 1000)));
+    res.status(429).json({ error: "Too many requests from this address; try again later." });
+    return;
+  }
+  next();
+});
+
+// Base64 adds a third to the image size, plus room for the profile
+api.post('/extract', express.json({ limit: Math.ceil(MAX_IMAGE_BYTES * 4 / 3) + 256 * 1024 }), async (req, res) => {
+  const startedAt = Date.now();
+  const { file, options, profile } = readRequest(req.body);
+
+  // Stop the Gemini call when the browser cancels or goes away
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableFinished) controller.abort();
+  });
+
+  const result = await provider.extract(file, options, profile, controller.signal);
+  console.log(`${req.ip} extract ${file.size} bytes, ${result.usage?.inputTokens ?? '?'}/${result.usage?.outputTokens ?? '?'} tokens, ${Date.now() - startedAt} ms`);
+  res.json(result);
+});
+
+app.use('/api', api);
+
+// Refusals keep their status; Gemini rate limits and outages are passed on so the app's queue retries them
+app.use((error: unknown, req: Request, res: Response, _next: NextFunction) => {
+  if (res.headersSent) return;
+  if (error instanceof RequestError) {
+    res.status(error.status).json({ error: error.message });
+    return;
+  }
+  const status = getErrorStatus(error);
+  if (status === 413 || (error as { type?: string }).type === 'entity.too.large') {
+    res.status(413).json({ error: "The request is too large." });
+    return;
+  }
+  console.error(`${req.ip} ${req.method} ${req.path} failed:`, error);
+  if (status === 429) {
+    res.status(429).json({ error: "Gemini rate limit reached; try again shortly." });
+  } else if (status === 400 && req.path === '/api/extract') {
+    res.status(400).json({ error: error instanceof Error ? error.message : "Gemini rejected the request." });
+  } else {
+    res.status(status && status >= 500 ? 503 : 500).json({ error: "The OCR request failed on the server." });
+  }
+});
+
+app.listen(PORT, () => {
+  console.log(`OCR proxy listening on http://localhost:${PORT}/api`);
+});
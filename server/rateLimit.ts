@@ -0,0 +1,42 @@
+// Fixed-window request counters per client, kept in memory (one server process)
+
+export interface RateLimit {
+  windowMs: number;
+  max: number; // Requests allowed per window
+}
+
+/**
+ * Counts requests per key (the client IP) against every limit, e.g. a per-minute and a per-day one.
+ * check returns null when the request may go ahead, or how long the client has to wait.
+ * A refused request is not counted, so a client that waits for Retry-After gets through.
+ */
+export const createRateLimiter = (limits: RateLimit[]) => {
+  const windows = limits.map(() => new Map<string, { start: number; count: number }>());
+
+  const check = (key: string, now = Date.now()): { retryAfterMs: number } | null => {
+    const counters = limits.map((limit, index) => {
+      const current = windows[index].get(key);
+      return current && now - current.start < limit.windowMs ? current : { start: now, count: 0 };
+    });
+
+    const retryAfterMs = Math.max(0, ...counters.map((counter, index) =>
+      counter.count >= limits[index].max ? counter.start + limits[index].windowMs - now : 0));
+    if (retryAfterMs > 0) {
+      return { retryAfterMs };
+    }
+
+    counters.forEach((counter, index) => windows[index].set(key, { ...counter, count: counter.count + 1 }));
+    return null;
+  };
+
+  // Drops finished windows so clients that went away do not accumulate
+  const prune = (now = Date.now()) => {
+    windows.forEach((window, index) => {
+      for (const [key, counter] of window) {
+        if (now - counter.start >= limits[index].windowMs) window.delete(key);
+      }
+    });
+  };
+
+  return { check, prune };
+};
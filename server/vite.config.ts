@@ -0,0 +1,16 @@
+import { defineConfig } from 'vite';
+
+// Bundles the OCR proxy server for Node. Dependencies stay external and load from node_modules.
+export default defineConfig({
+  build: {
+    ssr: 'server/index.ts',
+    outDir: 'dist-server',
+    emptyOutDir: true,
+    target: 'node20',
+    rollupOptions: {
+      output: {
+        entryFileNames: 'server.js',
+      },
+    },
+  },
+});
@@ -0,0 +1,320 @@
+import { BlockConfidence, BlockPlacement, ChemistryInfo, ContentBlock, CropBox, CropRepair, CropRepairType, InlineSegment, OcrResult, RegionType, TableCellData, TableRowData, TextLine } from "../types";
+import { stripCodeFences } from "./prompts";
+import { fixBoxCoordinates, parseInlineMarkup } from "./contentBlocks";
+
+// JSON Schema for the structured OCR response.
+// Kept flat (a "type" discriminator plus optional fields) because vision models follow
+// flat schemas far more reliably than nested anyOf unions. validateBlocks() narrows it.
+
+const BOX_SCHEMA = {
+  type: 'array',
+  description: 'Bounding box [ymin, xmin, ymax, xmax] as integers on a 0-1000 scale.',
+  items: { type: 'integer', minimum: 0, maximum: 1000 },
+  minItems: 4,
+  maxItems: 4,
+};
+
+const SEGMENT_SCHEMA = {
+  type: 'object',
+  properties: {
+    type: { type: 'string', enum: ['text', 'crop', 'equation'] },
+    text: { type: 'string', description: 'Text, with **bold**, *italic*, <u>underline</u> and <?>uncertain</?> markup.' },
+    box: BOX_SCHEMA,
+    latex: { type: 'string', description: 'LaTeX source of an equation, without $ delimiters.' },
+    smiles: { type: 'string', description: 'SMILES of a drawn chemical structure (chemistry mode).' },
+    formula: { type: 'string', description: 'Condensed linear chemical formula, charges after ^ (chemistry mode).' },
+  },
+  required: ['type'],
+};
+
+const TABLE_ROW_SCHEMA = {
+  type: 'object',
+  properties: {
+    header: { type: 'boolean', description: 'True for header rows.' },
+    cells: {
+      type: 'array',
+      description: 'Cells from left to right. A merged cell appears once; positions it covers are omitted.',
+      items: {
+        type: 'object',
+        properties: {
+          text: { type: 'string' },
+          colSpan: { type: 'integer', minimum: 1 },
+          rowSpan: { type: 'integer', minimum: 1 },
+        },
+        required: ['text'],
+      },
+    },
+  },
+  required: ['cells'],
+};
+
+const BLOCK_SCHEMA = {
+  type: 'object',
+  properties: {
+    type: { type: 'string', enum: ['paragraph', 'heading', 'listItem', 'table', 'crop', 'equation'] },
+    text: { type: 'string', description: 'Heading text.' },
+    level: { type: 'integer', description: 'Heading level (1-6) or list nesting level (0 = top).' },
+    ordered: { type: 'boolean', description: 'True for numbered list items.' },
+    segments: { type: 'array', items: SEGMENT_SCHEMA },
+    rows: { type: 'array', items: TABLE_ROW_SCHEMA },
+    box: BOX_SCHEMA,
+    latex: { type: 'string', description: 'LaTeX source of an equation, without $ delimiters.' },
+    smiles: { type: 'string', description: 'SMILES of a drawn chemical structure (chemistry mode).' },
+    formula: { type: 'string', description: 'Condensed linear chemical formula, charges after ^ (chemistry mode).' },
+    region: { type: 'string', enum: Object.values(RegionType), description: 'Page region the block belongs to; omit for body text.' },
+    column: { type: 'integer', minimum: 1, description: 'Column (1 = leftmost) of body text set in columns; omit for full-width content.' },
+    confidence: { type: 'number', minimum: 0, maximum: 1, description: 'How sure you are the transcription is exactly right, from 0 to 1.' },
+  },
+  required: ['type'],
+};
+
+const LINE_SCHEMA = {
+  type: 'object',
+  properties: {
+    text: { type: 'string' },
+    box: BOX_SCHEMA,
+  },
+  required: ['text', 'box'],
+};
+
+export const OCR_RESPONSE_SCHEMA = {
+  type: 'object',
+  properties: {
+    blocks: { type: 'array', items: BLOCK_SCHEMA },
+    lines: { type: 'array', description: 'Every printed line of text with its bounding box (line positions mode).', items: LINE_SCHEMA },
+  },
+  required: ['blocks'],
+};
+
+type RawObject = Record<string, unknown>;
+
+const isObject = (value: unknown): value is RawObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const fail = (path: string, message: string): never => {
+  throw new Error(`Invalid OCR response at ${path}: ${message}`);
+};
+
+// Text is normalised to precomposed characters: some models return Vietnamese tone marks as
+// separate combining characters, which many fonts place badly and searches do not match
+const readString = (raw: RawObject, key: string, path: string): string => {
+  const value = raw[key];
+  if (typeof value !== 'string') {
+    return fail(`${path}.${key}`, 'expected a string');
+  }
+  return value.normalize('NFC');
+};
+
+const readInteger = (raw: RawObject, key: string, path: string, fallback: number): number => {
+  const value = raw[key];
+  if (value === undefined) return fallback;
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    return fail(`${path}.${key}`, 'expected a number');
+  }
+  return Math.round(value);
+};
+
+// LaTeX is optional: without it the equation is rendered from its crop box
+const readLatex = (raw: RawObject): string | undefined =>
+  typeof raw.latex === 'string' && raw.latex.trim() ? raw.latex.trim() : undefined;
+
+const readChemistry = (raw: RawObject): ChemistryInfo | undefined => {
+  const smiles = typeof raw.smiles === 'string' ? raw.smiles.trim() : '';
+  const formula = typeof raw.formula === 'string' ? raw.formula.trim() : '';
+  if (!smiles && !formula) return undefined;
+  return { smiles: smiles || undefined, formula: formula || undefined };
+};
+
+export const hasArea = (box: CropBox): boolean => box.ymax > box.ymin && box.xmax > box.xmin;
+
+const BOX_KEYS = ['ymin', 'xmin', 'ymax', 'xmax'] as const;
+
+// Besides the [ymin, xmin, ymax, xmax] array of the schema, models write boxes as objects with
+// named corners or as strings such as "120, 80, 450, 900", and numbers as strings
+const readBoxValues = (value: unknown): unknown[] | null => {
+  if (typeof value === 'string') {
+    return value.replace(/^\s*[[(]|[\])]\s*$/g, '').split(/[\s,;]+/).filter(Boolean);
+  }
+  if (isObject(value)) return BOX_KEYS.map(key => value[key]);
+  return Array.isArray(value) ? value : null;
+};
+
+const toNumber = (value: unknown): number => {
+  if (typeof value === 'number') return value;
+  return typeof value === 'string' && value.trim() ? Number(value) : NaN;
+};
+
+/**
+ * Reads a box and fixes what can be fixed without guessing (fixBoxCoordinates). Each fix is added to repairs. A box that still has no area is returned anyway and logged as invalid,
+ * so the crop can be re-asked for or written as [MISSING IMAGE] instead of failing the whole response.
+ */
+const normalizeBox = (value: unknown, path: string, repairs: CropRepair[]): CropBox => {
+  const values = readBoxValues(value);
+  if (!values || values.length !== 4) {
+    return fail(path, 'expected [ymin, xmin, ymax, xmax]');
+  }
+  const before = values.map((n, i) => {
+    const number = toNumber(n);
+    return Number.isFinite(number) ? number : fail(`${path}[${i}]`, 'expected a number');
+  });
+
+  const { box, fixes } = fixBoxCoordinates(before);
+  const usable = hasArea(box);
+  repairs.push(...fixes.map(type => ({ type, path, before, after: usable ? box : undefined })));
+  if (!usable) {
+    repairs.push({ type: CropRepairType.INVALID, path, before });
+  }
+  return box;
+};
+
+const validateSegments = (value: unknown, path: string, repairs: CropRepair[]): InlineSegment[] => {
+  if (!Array.isArray(value)) {
+    return fail(path, 'expected an array of segments');
+  }
+  return value.flatMap((raw, i): InlineSegment[] => {
+    const segPath = `${path}[${i}]`;
+    if (!isObject(raw)) return fail(segPath, 'expected an object');
+
+    switch (raw.type) {
+      case 'text':
+        // Bold, italic and underline arrive as inline markup in the text
+        return parseInlineMarkup(readString(raw, 'text', segPath));
+      case 'crop':
+        return [{ type: 'crop', box: normalizeBox(raw.box, `${segPath}.box`, repairs), chemistry: readChemistry(raw) }];
+      case 'equation':
+        return [{ type: 'equation', box: normalizeBox(raw.box, `${segPath}.box`, repairs), latex: readLatex(raw) }];
+      default:
+        return fail(`${segPath}.type`, `unknown segment type "${String(raw.type)}"`);
+    }
+  });
+};
+
+const validateTableRows = (value: unknown, path: string): TableRowData[] => {
+  if (!Array.isArray(value) || value.length === 0) {
+    return fail(path, 'expected a non-empty array of rows');
+  }
+  return value.map((raw, r): TableRowData => {
+    const rowPath = `${path}[${r}]`;
+    if (!isObject(raw) || !Array.isArray(raw.cells)) {
+      return fail(rowPath, 'expected an object with a "cells" array');
+    }
+    const remainingRows = value.length - r;
+    return {
+      header: raw.header === true,
+      cells: raw.cells.map((cell, c): TableCellData => {
+        const cellPath = `${rowPath}.cells[${c}]`;
+        if (!isObject(cell)) return fail(cellPath, 'expected an object');
+        return {
+          text: readString(cell, 'text', cellPath),
+          colSpan: Math.max(1, readInteger(cell, 'colSpan', cellPath, 1)),
+          // A merge can never extend past the last row
+          rowSpan: Math.min(remainingRows, Math.max(1, readInteger(cell, 'rowSpan', cellPath, 1))),
+        };
+      }),
+    };
+  });
+};
+
+const REGIONS = new Set<string>(Object.values(RegionType));
+
+// Only non-default placement is kept, so single-column pages produce the same blocks as before
+const readPlacement = (raw: RawObject, path: string): BlockPlacement => {
+  const placement: BlockPlacement = {};
+  if (raw.region !== undefined && raw.region !== RegionType.BODY) {
+    if (typeof raw.region !== 'string' || !REGIONS.has(raw.region)) {
+      return fail(`${path}.region`, `unknown region "${String(raw.region)}"`);
+    }
+    placement.region = raw.region as RegionType;
+  }
+  const column = readInteger(raw, 'column', path, 0);
+  if (column >= 1 && !placement.region) {
+    placement.column = column;
+  }
+  return placement;
+};
+
+// Confidence only guides review, so an unusable value is dropped rather than failing the response.
+// Some models answer in percent despite the schema.
+const readConfidence = (raw: RawObject): BlockConfidence => {
+  const value = raw.confidence;
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < 0 || value > 100) return {};
+  return { confidence: value > 1 ? value / 100 : value };
+};
+
+const validateBlockContent = (raw: RawObject, path: string, repairs: CropRepair[]): ContentBlock => {
+  switch (raw.type) {
+    case 'paragraph':
+      return { type: 'paragraph', segments: validateSegments(raw.segments, `${path}.segments`, repairs) };
+    case 'heading':
+      return {
+        type: 'heading',
+        level: Math.min(6, Math.max(1, readInteger(raw, 'level', path, 1))),
+        text: readString(raw, 'text', path),
+      };
+    case 'listItem':
+      return {
+        type: 'listItem',
+        ordered: raw.ordered === true,
+        level: Math.max(0, readInteger(raw, 'level', path, 0)),
+        segments: validateSegments(raw.segments, `${path}.segments`, repairs),
+      };
+    case 'table':
+      return { type: 'table', rows: validateTableRows(raw.rows, `${path}.rows`) };
+    case 'crop':
+      return { type: 'crop', box: normalizeBox(raw.box, `${path}.box`, repairs), chemistry: readChemistry(raw) };
+    case 'equation':
+      return { type: 'equation', box: normalizeBox(raw.box, `${path}.box`, repairs), latex: readLatex(raw) };
+    default:
+      return fail(`${path}.type`, `unknown block type "${String(raw.type)}"`);
+  }
+};
+
+const validateBlock = (raw: unknown, path: string, repairs: CropRepair[]): ContentBlock => {
+  if (!isObject(raw)) return fail(path, 'expected an object');
+  return { ...validateBlockContent(raw, path, repairs), ...readPlacement(raw, path), ...readConfidence(raw) };
+};
+
+/**
+ * Checks an already-parsed model response against the block schema and returns typed blocks.
+ * Throws a descriptive error instead of guessing when the model deviates from the schema;
+ * crop boxes are the exception, fixed where possible and logged to repairs (see normalizeBox).
+ */
+export const validateBlocks = (raw: unknown, repairs: CropRepair[] = []): ContentBlock[] => {
+  if (!isObject(raw) || !Array.isArray(raw.blocks)) {
+    return fail('$', 'expected an object with a "blocks" array');
+  }
+  return raw.blocks.map((block, i) => validateBlock(block, `blocks[${i}]`, repairs));
+};
+
+/**
+ * Reads the optional line positions. Unlike blocks they only feed the PDF text layer,
+ * so unusable entries are dropped instead of failing the whole response.
+ */
+export const validateLines = (raw: unknown): TextLine[] | undefined => {
+  if (!isObject(raw) || !Array.isArray(raw.lines)) return undefined;
+  return raw.lines.flatMap((line, i): TextLine[] => {
+    if (!isObject(line) || typeof line.text !== 'string' || !line.text.trim()) return [];
+    try {
+      // Fixes to line boxes are not logged: a line that is still unusable is simply left out
+      const box = normalizeBox(line.box, `lines[${i}].box`, []);
+      return hasArea(box) ? [{ text: line.text.trim().normalize('NFC'), box }] : [];
+    } catch {
+      return [];
+    }
+  });
+};
+
+/**
+ * Parses the raw JSON text returned by a model into validated blocks and line positions
+ */
+export const parseOcrResponse = (text: string): OcrResult => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(stripCodeFences(text));
+  } catch {
+    throw new Error("The model did not return valid JSON.");
+  }
+  const repairs: CropRepair[] = [];
+  const blocks = validateBlocks(raw, repairs);
+  return { blocks, lines: validateLines(raw), ...(repairs.length > 0 ? { repairs } : {}) };
+};
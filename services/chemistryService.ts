@@ -0,0 +1,105 @@
+import SmilesDrawer from "smiles-drawer";
+import { ChemistryInfo } from "../types";
+
+export interface FormulaPart {
+  text: string;
+  script: 'normal' | 'subscript' | 'superscript';
+}
+
+const ARROWS: Record<string, string> = {
+  '<->': '⇌',
+  '<=>': '⇌',
+  '->': '→',
+  '=>': '→',
+};
+
+/**
+ * Splits a condensed linear formula (H2SO4, Ca(OH)2, CuSO4·5H2O, SO4^2-, 2H2 + O2 -> 2H2O)
+ * into runs: atom counts become subscripts, charges written after "^" become superscripts,
+ * and leading coefficients stay on the baseline.
+ */
+export const parseChemicalFormula = (formula: string): FormulaPart[] => {
+  const parts: FormulaPart[] = [];
+  const push = (text: string, script: FormulaPart['script']) => {
+    const last = parts[parts.length - 1];
+    if (last && last.script === script) {
+      last.text += text;
+    } else {
+      parts.push({ text, script });
+    }
+  };
+
+  let i = 0;
+  while (i < formula.length) {
+    const arrow = Object.keys(ARROWS).find(a => formula.startsWith(a, i));
+    if (arrow) {
+      push(` ${ARROWS[arrow]} `, 'normal');
+      i += arrow.length;
+      continue;
+    }
+
+    const ch = formula[i];
+
+    if (ch === '^') {
+      // Charge: ^2-, ^{2-}, ^+
+      const match = formula.slice(i + 1).match(/^\{([^}]*)\}|^(\d*[+-]|\d+)/);
+      if (!match) {
+        push(ch, 'normal');
+        i++;
+        continue;
+      }
+      push(match[1] ?? match[2], 'superscript');
+      i += 1 + match[0].length;
+      continue;
+    }
+
+    if (/\d/.test(ch)) {
+      const digits = formula.slice(i).match(/^\d+/)![0];
+      const previous = formula[i - 1];
+      // Digits directly after an element or a closing bracket are atom counts
+      const isCount = previous !== undefined && /[a-zA-Z)\]]/.test(previous);
+      push(digits, isCount ? 'subscript' : 'normal');
+      i += digits.length;
+      continue;
+    }
+
+    push(ch, 'normal');
+    i++;
+  }
+
+  return parts;
+};
+
+/**
+ * The formula a chemistry crop is written as, or undefined when it stays an image. A crop with a SMILES
+ * string shows a structure, so it is drawn even when the model also gave its formula (e.g. benzene).
+ */
+export const getTextFormula = (chemistry?: ChemistryInfo): string | undefined =>
+  chemistry?.smiles ? undefined : chemistry?.formula;
+
+/**
+ * Draws a structure from its SMILES string and returns it as PNG data.
+ * Rejects when the SMILES cannot be parsed, so callers can fall back to the cropped image.
+ */
+export const renderSmilesToPng = async (smiles: string, width: number, height: number): Promise<ArrayBuffer> => {
+  const tree = await new Promise<unknown>((resolve, reject) => {
+    SmilesDrawer.parse(smiles, resolve, (err: Error) => reject(new Error(`Invalid SMILES "${smiles}": ${err.message ?? err}`)));
+  });
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(width);
+  canvas.height = Math.round(height);
+
+  const drawer = new SmilesDrawer.Drawer({ width: canvas.width, height: canvas.height, padding: 10 });
+  drawer.draw(tree, canvas, 'light', false);
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => {
+      if (!blob) {
+        reject(new Error("Structure drawing failed"));
+        return;
+      }
+      blob.arrayBuffer().then(resolve, reject);
+    }, 'image/png');
+  });
+};
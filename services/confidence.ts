@@ -0,0 +1,26 @@
+import { ContentBlock, RegionType } from "../types";
+import { getRegion } from "./regionLayout";
+
+// Review hints from the confidence the model reports for each block
+
+// Blocks below this are counted on the image card and can get a Word comment
+export const LOW_CONFIDENCE = 0.7;
+
+export const isLowConfidence = (block: ContentBlock): boolean =>
+  block.confidence !== undefined && block.confidence < LOW_CONFIDENCE;
+
+export const countLowConfidence = (blocks: ContentBlock[]): number => blocks.filter(isLowConfidence).length;
+
+const REGION_NAMES: Record<RegionType, string> = {
+  [RegionType.BODY]: 'main text',
+  [RegionType.SIDEBAR]: 'sidebar',
+  [RegionType.HEADER]: 'running header',
+  [RegionType.FOOTER]: 'running footer',
+  [RegionType.FOOTNOTE]: 'footnotes',
+};
+
+/**
+ * Where a block was read on the page, e.g. "column 2" or "footnotes"
+ */
+export const describeRegion = (block: ContentBlock): string =>
+  block.column ? `column ${block.column}` : REGION_NAMES[getRegion(block)];
@@ -0,0 +1,456 @@
+import { BlockPlacement, ChemistryInfo, ContentBlock, CropBox, CropRepairType, InlineSegment, RegionType, TableBlock, TableCellData, TableRowData, TextMarks, TextSegment } from "../types";
+
+// Editable text form of content blocks (Markdown-like, one block per line):
+//   # Heading            - item / 1. item (two spaces of indent per nesting level)
+//   **bold** *italic* <u>underline</u>   inline formatting, may be nested
+//   <?>word</?>          a reading the model was not sure of
+//   | a | < | b |        pipe tables; "<" merges into the cell on the left, "^" into the cell above
+//   [[CROP:ymin,xmin,ymax,xmax|formula=...|smiles=...]]
+//   [[EQ:ymin,xmin,ymax,xmax|latex=...]]
+//   [[REGION:footer]] / [[REGION:body|column=2]]   on its own line: region of the blocks that follow
+// A line holding only a tag is a standalone crop/equation block; tags inside a line are inline segments.
+// Line breaks inside a block are written as \n. A paragraph that would read as another kind of line
+// (e.g. "1975. was a year" or "- 5 degrees") starts with a backslash, which keeps it a paragraph.
+
+export type TagKind = 'CROP' | 'EQ';
+
+export interface ContentTag {
+  kind: TagKind;
+  box: CropBox;
+  attributes: Record<string, string>;
+  start: number; // Offset of the tag in the text
+  end: number;
+}
+
+// Lazy match up to the first "]]" that is not followed by another "]" (SMILES may end in "]")
+const TAG_REGEX = /\[\[(CROP|EQ):(.*?)\]\](?!\])/g;
+const ATTRIBUTE_SEPARATOR = /\|(?=(?:formula|smiles|latex)=)/;
+
+export const formatTag = (kind: TagKind, box: CropBox, attributes: Record<string, string> = {}): string => {
+  const extra = Object.entries(attributes)
+    .filter(([, value]) => value)
+    .map(([key, value]) => `|${key}=${value}`)
+    .join('');
+  return `[[${kind}:${box.ymin},${box.xmin},${box.ymax},${box.xmax}${extra}]]`;
+};
+
+// Chemistry annotations are appended to the tag, e.g. [[CROP:10,20,30,40|formula=H2SO4]]
+export const formatCropTag = (box: CropBox, chemistry?: ChemistryInfo): string =>
+  formatTag('CROP', box, { formula: chemistry?.formula ?? '', smiles: chemistry?.smiles ?? '' });
+
+/**
+ * Fixes box coordinates that can be fixed without guessing: fractions of the image are scaled to 0-1000,
+ * coordinates are rounded and clamped to the image, and swapped when minimum and maximum are the wrong way round.
+ * Returns the fixed box with the fixes made. Used for model responses and for boxes typed in the review editor.
+ */
+export const fixBoxCoordinates = (values: number[]): { box: CropBox; fixes: CropRepairType[] } => {
+  const fixes: CropRepairType[] = [];
+  let coords = values;
+  if (coords.every(n => n >= 0 && n <= 1) && coords.some(n => !Number.isInteger(n))) {
+    coords = coords.map(n => n * 1000);
+    fixes.push(CropRepairType.SCALED);
+  }
+  coords = coords.map(Math.round);
+  const clamped = coords.map(n => Math.min(1000, Math.max(0, n)));
+  if (clamped.some((n, i) => n !== coords[i])) {
+    fixes.push(CropRepairType.CLAMPED);
+  }
+
+  let [ymin, xmin, ymax, xmax] = clamped;
+  if (ymin > ymax || xmin > xmax) {
+    [ymin, ymax] = [Math.min(ymin, ymax), Math.max(ymin, ymax)];
+    [xmin, xmax] = [Math.min(xmin, xmax), Math.max(xmin, xmax)];
+    fixes.push(CropRepairType.SWAPPED);
+  }
+  return { box: { ymin, xmin, ymax, xmax }, fixes };
+};
+
+const parseTagBody = (body: string): { box: CropBox; attributes: Record<string, string> } | null => {
+  const [coords, ...rest] = body.split(ATTRIBUTE_SEPARATOR);
+  const values = coords.split(',').map(v => Number(v.trim()));
+  if (values.length !== 4 || values.some(v => !Number.isFinite(v))) {
+    return null;
+  }
+  const attributes: Record<string, string> = {};
+  for (const pair of rest) {
+    const eq = pair.indexOf('=');
+    attributes[pair.slice(0, eq)] = pair.slice(eq + 1);
+  }
+  // Boxes edited by hand get the same fixes as the model's
+  return { box: fixBoxCoordinates(values).box, attributes };
+};
+
+/**
+ * Finds all CROP/EQ tags in a text, with their offsets
+ */
+export const findTags = (text: string): ContentTag[] => {
+  const tags: ContentTag[] = [];
+  for (const match of text.matchAll(TAG_REGEX)) {
+    const parsed = parseTagBody(match[2]);
+    if (!parsed) continue;
+    tags.push({
+      kind: match[1] as TagKind,
+      ...parsed,
+      start: match.index!,
+      end: match.index! + match[0].length,
+    });
+  }
+  return tags;
+};
+
+const UNCERTAIN_REGEX = /<\?>[\s\S]+?<\/\?>/g;
+
+/**
+ * Offsets of the <?>...</?> marks around uncertain readings, markers included
+ */
+export const findUncertainRanges = (text: string): { start: number; end: number }[] =>
+  [...text.matchAll(UNCERTAIN_REGEX)].map(match => ({ start: match.index!, end: match.index! + match[0].length }));
+
+/**
+ * Removes all CROP/EQ tags, leaving only the written text
+ */
+export const stripTags = (text: string): string => text.replace(TAG_REGEX, '');
+
+// <?>...</?>, <u>...</u>, or text between matching runs of one to three asterisks. Asterisks inside words
+// (2*3*4) or next to a space do not count, so stray ones in transcribed text stay literal.
+const MARKUP_REGEX = /<\?>([\s\S]+?)<\/\?>|<u>([\s\S]+?)<\/u>|(?<![\w*])(\*{1,3})(?=[^\s*])([\s\S]*?[^\s*])\3(?![\w*])/;
+
+/**
+ * Splits text with inline formatting markup into text segments carrying their marks
+ */
+export const parseInlineMarkup = (text: string, marks: TextMarks = {}): TextSegment[] => {
+  const match = text.match(MARKUP_REGEX);
+  if (!match) {
+    return text ? [{ type: 'text', text, ...marks }] : [];
+  }
+
+  const [whole, uncertain, underlined, asterisks, emphasized] = match;
+  const inner: TextMarks = uncertain !== undefined
+    ? { ...marks, uncertain: true }
+    : underlined !== undefined
+    ? { ...marks, underline: true }
+    : {
+        ...marks,
+        ...(asterisks.length >= 2 && { bold: true }),
+        ...(asterisks.length !== 2 && { italic: true }),
+      };
+  const before = text.slice(0, match.index);
+  const after = text.slice(match.index! + whole.length);
+
+  return [
+    ...(before ? [{ type: 'text' as const, text: before, ...marks }] : []),
+    ...parseInlineMarkup(uncertain ?? underlined ?? emphasized, inner),
+    ...parseInlineMarkup(after, marks),
+  ];
+};
+
+/**
+ * Writes a text segment with its marks as markup (inverse of parseInlineMarkup).
+ * Surrounding spaces stay outside the markers, which must touch the text.
+ */
+export const formatInlineMarkup = (segment: TextSegment): string => {
+  const [, leading, core, trailing] = segment.text.match(/^(\s*)([\s\S]*?)(\s*)$/)!;
+  if (!core) return segment.text;
+
+  const asterisks = '*'.repeat((segment.bold ? 2 : 0) + (segment.italic ? 1 : 0));
+  const emphasized = `${asterisks}${core}${asterisks}`;
+  const underlined = segment.underline ? `<u>${emphasized}</u>` : emphasized;
+  return `${leading}${segment.uncertain ? `<?>${underlined}</?>` : underlined}${trailing}`;
+};
+
+/**
+ * Removes inline formatting markup, leaving only the written text
+ */
+export const stripMarkup = (text: string): string =>
+  parseInlineMarkup(text).map(segment => segment.text).join('');
+
+const toChemistry = (attributes: Record<string, string>): ChemistryInfo | undefined =>
+  attributes.formula || attributes.smiles
+    ? { formula: attributes.formula || undefined, smiles: attributes.smiles || undefined }
+    : undefined;
+
+const tagToSegment = (tag: ContentTag): InlineSegment =>
+  tag.kind === 'EQ'
+    ? { type: 'equation', box: tag.box, latex: tag.attributes.latex || undefined }
+    : { type: 'crop', box: tag.box, chemistry: toChemistry(tag.attributes) };
+
+/**
+ * Splits a line of text into text segments and tag segments
+ */
+export const parseInlineSegments = (line: string): InlineSegment[] => {
+  const segments: InlineSegment[] = [];
+  let cursor = 0;
+  for (const tag of findTags(line)) {
+    if (tag.start > cursor) {
+      segments.push(...parseInlineMarkup(line.slice(cursor, tag.start)));
+    }
+    segments.push(tagToSegment(tag));
+    cursor = tag.end;
+  }
+  if (cursor < line.length) {
+    segments.push(...parseInlineMarkup(line.slice(cursor)));
+  }
+  return segments;
+};
+
+// A backslash is doubled where it could be read as part of an escape: before "n", another backslash, a line break or the end
+const escapeLineBreaks = (text: string): string =>
+  text.replace(/\\(?=[\\n\n]|$)/g, '\\\\').replace(/\n/g, '\\n');
+
+const unescapeLineBreaks = (text: string): string =>
+  text.replace(/\\([\\n])/g, (_, escaped: string) => escaped === 'n' ? '\n' : '\\');
+
+// A grid position is either the top-left of a cell, or covered by a merge from the left/above
+export type GridSlot = TableCellData | 'colspan' | 'rowspan';
+
+/**
+ * Expands a table with merged cells into a rectangular grid of slots
+ */
+export const expandTableGrid = (table: TableBlock): GridSlot[][] => {
+  const grid: GridSlot[][] = table.rows.map(() => []);
+
+  table.rows.forEach((row, r) => {
+    let c = 0;
+    for (const cell of row.cells) {
+      // Skip positions already taken by a row merge from above
+      while (grid[r][c] !== undefined) c++;
+
+      for (let dr = 0; dr < cell.rowSpan && r + dr < grid.length; dr++) {
+        for (let dc = 0; dc < cell.colSpan; dc++) {
+          grid[r + dr][c + dc] = dr === 0 && dc === 0 ? cell : dr === 0 ? 'colspan' : 'rowspan';
+        }
+      }
+      c += cell.colSpan;
+    }
+  });
+
+  // Pad ragged rows so every row has the same number of columns
+  const columnCount = Math.max(...grid.map(row => row.length));
+  return grid.map(row => Array.from({ length: columnCount }, (_, c) => row[c] ?? { text: '', colSpan: 1, rowSpan: 1 }));
+};
+
+// Markdown-style pipe table; "<" marks a position merged into the cell on its left, "^" one merged into the cell above
+const tableToText = (table: TableBlock): string => {
+  const grid = expandTableGrid(table);
+  const lines: string[] = [];
+
+  grid.forEach((row, r) => {
+    const cells = row.map(slot => slot === 'colspan' ? '<' : slot === 'rowspan' ? '^' : escapeLineBreaks(slot.text).replace(/\|/g, '\\|'));
+    lines.push(`| ${cells.join(' | ')} |`);
+    // Separator after the last header row
+    if (table.rows[r].header && !table.rows[r + 1]?.header) {
+      lines.push(`|${row.map(() => '---').join('|')}|`);
+    }
+  });
+
+  return lines.join('\n');
+};
+
+const splitTableLine = (line: string): string[] =>
+  line.trim().replace(/^\|/, '').replace(/\|$/, '')
+    .split(/(?<!\\)\|/)
+    .map(cell => unescapeLineBreaks(cell.trim().replace(/\\\|/g, '|')));
+
+const parseTable = (lines: string[]): TableBlock => {
+  const rows: TableRowData[] = [];
+  // The cell each grid position belongs to, to resolve "<" and "^" markers
+  const owners: TableCellData[][] = [];
+
+  for (const line of lines) {
+    if (/^\|?\s*:?-{3,}/.test(line.trim())) {
+      // Separator: every row above it is a header row
+      rows.forEach(row => { row.header = true; });
+      continue;
+    }
+
+    const r = rows.length;
+    const row: TableRowData = { header: false, cells: [] };
+    owners[r] = [];
+
+    splitTableLine(line).forEach((text, c) => {
+      const left = owners[r][c - 1];
+      const above = owners[r - 1]?.[c];
+      if (text === '<' && left) {
+        // Only widen cells that start on this row; positions under a wide merged cell arrive as "^"
+        if (row.cells.includes(left)) left.colSpan++;
+        owners[r][c] = left;
+      } else if (text === '^' && above) {
+        // Count each extra row once, on the leftmost column of the merged cell
+        if (owners[r][c - 1] !== above) above.rowSpan++;
+        owners[r][c] = above;
+      } else {
+        const cell: TableCellData = { text, colSpan: 1, rowSpan: 1 };
+        row.cells.push(cell);
+        owners[r][c] = cell;
+      }
+    });
+
+    rows.push(row);
+  }
+
+  return { type: 'table', rows };
+};
+
+const REGION_LINE = /^\[\[REGION:(\w+)(?:\|column=(\d+))?\]\]$/;
+const REGIONS = new Set<string>(Object.values(RegionType));
+
+const formatRegionLine = ({ region, column }: BlockPlacement): string =>
+  `[[REGION:${region ?? RegionType.BODY}${column ? `|column=${column}` : ''}]]`;
+
+const parseRegionLine = (line: string): BlockPlacement | null => {
+  const match = line.trim().match(REGION_LINE);
+  if (!match || !REGIONS.has(match[1])) return null;
+  const region = match[1] as RegionType;
+  const column = Number(match[2]);
+  if (region !== RegionType.BODY) return { region };
+  return column >= 1 ? { column } : {};
+};
+
+const samePlacement = (a: BlockPlacement, b: BlockPlacement) =>
+  (a.region ?? RegionType.BODY) === (b.region ?? RegionType.BODY) && a.column === b.column;
+
+const segmentToText = (segment: InlineSegment): string => {
+  if (segment.type === 'text') return formatInlineMarkup({ ...segment, text: escapeLineBreaks(segment.text) });
+  if (segment.type === 'equation') return formatTag('EQ', segment.box, { latex: segment.latex ?? '' });
+  return formatCropTag(segment.box, segment.chemistry);
+};
+
+const segmentsToText = (segments: InlineSegment[]): string => segments.map(segmentToText).join('');
+
+const parseSegments = (line: string): InlineSegment[] =>
+  parseInlineSegments(line).map(segment => segment.type === 'text' ? { ...segment, text: unescapeLineBreaks(segment.text) } : segment);
+
+// Paragraph lines the parser would otherwise read as a region, table, heading, list item or escaped paragraph
+const BLOCK_LIKE_LINE = /^\s*(?:\[\[REGION:|\||#{1,6}\s|[-*]\s|\d+[.)]\s|\\)/;
+
+const paragraphToText = (segments: InlineSegment[]): string => {
+  const text = segmentsToText(segments);
+  // A lone tag would come back as a standalone crop or equation block
+  const loneTag = segments.length === 1 && segments[0].type !== 'text';
+  return BLOCK_LIKE_LINE.test(text) || loneTag ? `\\${text}` : text;
+};
+
+const blockToText = (block: ContentBlock, orderedCounters: number[]): string => {
+  switch (block.type) {
+    case 'heading':
+      return `${'#'.repeat(block.level)} ${escapeLineBreaks(block.text)}`;
+    case 'paragraph':
+      return paragraphToText(block.segments);
+    case 'listItem': {
+      orderedCounters.length = block.level + 1;
+      const count = (orderedCounters[block.level] ?? 0) + 1;
+      orderedCounters[block.level] = count;
+      const marker = block.ordered ? `${count}.` : '-';
+      return `${'  '.repeat(block.level)}${marker} ${segmentsToText(block.segments)}`;
+    }
+    case 'table':
+      return tableToText(block);
+    case 'crop':
+      return formatCropTag(block.box, block.chemistry);
+    case 'equation':
+      return formatTag('EQ', block.box, { latex: block.latex ?? '' });
+  }
+};
+
+/**
+ * Renders blocks in the editable text form described at the top of this file
+ */
+export const blocksToText = (blocks: ContentBlock[]): string => {
+  const orderedCounters: number[] = [];
+  let placement: BlockPlacement = {};
+
+  return blocks.map(block => {
+    if (block.type !== 'listItem') {
+      orderedCounters.length = 0;
+    }
+
+    // A region line is written whenever the placement changes; plain body text needs none
+    let prefix = '';
+    if (!samePlacement(block, placement)) {
+      placement = block;
+      prefix = `${formatRegionLine(block)}\n`;
+    }
+    return prefix + blockToText(block, orderedCounters);
+  }).join('\n');
+};
+
+/**
+ * Copies the confidence of blocks that came through a review unchanged. The text form does not
+ * carry confidence, and an edited block has been checked, so it no longer needs one.
+ */
+export const carryOverConfidence = (previous: ContentBlock[], next: ContentBlock[]): ContentBlock[] => {
+  // Fresh list counters, so an item's key does not depend on the items before it
+  const keyOf = (block: ContentBlock) => `${formatRegionLine(block)}\n${blockToText(block, [])}`;
+  const confidences = new Map<string, number[]>();
+  for (const block of previous) {
+    if (block.confidence === undefined) continue;
+    const key = keyOf(block);
+    confidences.set(key, [...(confidences.get(key) ?? []), block.confidence]);
+  }
+  return next.map(block => {
+    const confidence = confidences.get(keyOf(block))?.shift();
+    return confidence === undefined ? block : { ...block, confidence };
+  });
+};
+
+/**
+ * Parses the editable text form back into content blocks (inverse of blocksToText)
+ */
+export const parseTextToBlocks = (text: string): ContentBlock[] => {
+  const blocks: ContentBlock[] = [];
+  const lines = text.split('\n');
+  let placement: BlockPlacement = {};
+  const add = (block: ContentBlock) => blocks.push({ ...block, ...placement });
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    if (!line.trim()) continue;
+
+    const region = parseRegionLine(line);
+    if (region) {
+      placement = region;
+      continue;
+    }
+
+    if (line.trim().startsWith('|')) {
+      const tableLines: string[] = [];
+      while (i < lines.length && lines[i].trim().startsWith('|')) {
+        tableLines.push(lines[i]);
+        i++;
+      }
+      i--;
+      add(parseTable(tableLines));
+      continue;
+    }
+
+    const heading = line.match(/^(#{1,6})\s+(.*)$/);
+    if (heading) {
+      add({ type: 'heading', level: heading[1].length, text: unescapeLineBreaks(heading[2].trim()) });
+      continue;
+    }
+
+    const listItem = line.match(/^(\s*)([-*]|\d+[.)])\s+(.*)$/);
+    if (listItem) {
+      add({
+        type: 'listItem',
+        ordered: /\d/.test(listItem[2]),
+        level: Math.floor(listItem[1].replace(/\t/g, '  ').length / 2),
+        segments: parseSegments(listItem[3]),
+      });
+      continue;
+    }
+
+    // An escaped paragraph keeps its text as written after the backslash, leading spaces included
+    const escaped = line.trim().startsWith('\\');
+    const segments = parseSegments(escaped ? line.trimEnd().replace(/^\s*\\/, '') : line.trim());
+    // A tag alone on its line is a standalone block, unless escaped
+    const [only] = segments;
+    if (!escaped && segments.length === 1 && only.type !== 'text') {
+      add(only);
+      continue;
+    }
+    add({ type: 'paragraph', segments });
+  }
+
+  return blocks;
+};
@@ -0,0 +1,76 @@
+import { CropBox, CropRefinement } from "../types";
+import { PixelBuffer, PixelRect, clearBackground, cropPixels, estimateBackground, findContentBounds, resizePixels } from "./imageFilters";
+
+// Fitting of crops to their content before they are embedded: model boxes are often loose, leaving
+// wide white margins, or clip the edge of a formula or structure.
+
+// How far past the model's box to look for clipped content, in 0-1000 units of the image size
+const SEARCH_MARGIN = 15;
+// upscaleSmall enlarges crops whose longest side is below this, by at most MAX_UPSCALE times
+const MIN_UPSCALED_SIZE = 400;
+const MAX_UPSCALE = 4;
+
+export const isRefining = (refinement?: CropRefinement): refinement is CropRefinement =>
+  Boolean(refinement && (refinement.trim || refinement.upscaleSmall || refinement.transparent));
+
+/**
+ * Area of the image to read for a crop: a little more than the box when trimming, so clipped content can be found
+ */
+export const getSearchBox = (box: CropBox, refinement: CropRefinement): CropBox =>
+  refinement.trim
+    ? {
+        ymin: Math.max(0, box.ymin - SEARCH_MARGIN),
+        xmin: Math.max(0, box.xmin - SEARCH_MARGIN),
+        ymax: Math.min(1000, box.ymax + SEARCH_MARGIN),
+        xmax: Math.min(1000, box.xmax + SEARCH_MARGIN),
+      }
+    : box;
+
+/**
+ * Content inside the box, grown past a side of the box only where the content runs into that side
+ * (the model clipped a stroke). Null when the box holds no content, e.g. a faint or blank area.
+ */
+const snapToContent = (region: PixelBuffer, background: number, box: PixelRect): PixelRect | null => {
+  const inside = findContentBounds(region, background, box);
+  if (!inside) return null;
+  const beyond = (area: PixelRect) => findContentBounds(region, background, area);
+  const rows = { top: inside.top, bottom: inside.bottom };
+  const columns = { left: inside.left, right: inside.right };
+  return {
+    left: inside.left === box.left ? beyond({ ...rows, left: 0, right: box.left })?.left ?? inside.left : inside.left,
+    right: inside.right === box.right ? beyond({ ...rows, left: box.right, right: region.width })?.right ?? inside.right : inside.right,
+    top: inside.top === box.top ? beyond({ ...columns, top: 0, bottom: box.top })?.top ?? inside.top : inside.top,
+    bottom: inside.bottom === box.bottom ? beyond({ ...columns, top: box.bottom, bottom: region.height })?.bottom ?? inside.bottom : inside.bottom,
+  };
+};
+
+/**
+ * Refines one crop. The region holds the pixels of the search box and box is the model's box within it.
+ * Returns the finished image and the part of the region it shows, before any upscaling.
+ */
+export const refineCrop = (region: PixelBuffer, box: PixelRect, refinement: CropRefinement): { image: PixelBuffer; rect: PixelRect } => {
+  const background = estimateBackground(region);
+
+  let rect = box;
+  const content = refinement.trim ? snapToContent(region, background, box) : null;
+  if (content) {
+    const margin = Math.max(0, Math.round(refinement.marginPx));
+    rect = {
+      left: Math.max(0, content.left - margin),
+      top: Math.max(0, content.top - margin),
+      right: Math.min(region.width, content.right + margin),
+      bottom: Math.min(region.height, content.bottom + margin),
+    };
+  }
+
+  let image = cropPixels(region, rect);
+  if (refinement.transparent) {
+    clearBackground(image, background);
+  }
+  const longest = Math.max(image.width, image.height);
+  if (refinement.upscaleSmall && longest < MIN_UPSCALED_SIZE) {
+    const scale = Math.min(MAX_UPSCALE, MIN_UPSCALED_SIZE / longest);
+    image = resizePixels(image, Math.round(image.width * scale), Math.round(image.height * scale));
+  }
+  return { image, rect };
+};
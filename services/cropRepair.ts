@@ -0,0 +1,188 @@
+import { ContentBlock, CropBlock, CropBox, CropRepair, CropRepairType, CropSettings, OcrResult, OcrUsage } from "../types";
+import { hasArea } from "./blockSchema";
+import { cropImage } from "./imageService";
+import { isAbortError } from "./errors";
+
+// Clean-up of crop boxes after OCR. Boxes were already clamped and swapped when the response was read
+// (normalizeBox in blockSchema.ts); this step re-asks for the ones still unusable, joins overlapping crops
+// and adds the configured padding. Padding is a setting rather than a repair, so it is not logged.
+
+// Margin kept around an unusable box when its region is sent to the model again, in 0-1000 units
+const REASK_MARGIN = 100;
+
+/**
+ * Sends one region of the source image to the model, with the same options and profile as the full image
+ */
+export interface RegionReask {
+  image: File;
+  extract: (region: File) => Promise<OcrResult>;
+  // Called before every region call; returning false (e.g. over budget) leaves the remaining boxes unusable
+  canStart?: () => boolean;
+}
+
+type BoxedItem = { type: 'crop' | 'equation'; box: CropBox };
+
+const toArray = ({ ymin, xmin, ymax, xmax }: CropBox): number[] => [ymin, xmin, ymax, xmax];
+
+const clampBox = ({ ymin, xmin, ymax, xmax }: CropBox): CropBox => ({
+  ymin: Math.max(0, ymin),
+  xmin: Math.max(0, xmin),
+  ymax: Math.min(1000, ymax),
+  xmax: Math.min(1000, xmax),
+});
+
+const padBox = (box: CropBox, padding: number): CropBox =>
+  clampBox({ ymin: box.ymin - padding, xmin: box.xmin - padding, ymax: box.ymax + padding, xmax: box.xmax + padding });
+
+const overlaps = (a: CropBox, b: CropBox): boolean =>
+  Math.min(a.ymax, b.ymax) > Math.max(a.ymin, b.ymin) && Math.min(a.xmax, b.xmax) > Math.max(a.xmin, b.xmin);
+
+const unionBox = (a: CropBox, b: CropBox): CropBox => ({
+  ymin: Math.min(a.ymin, b.ymin),
+  xmin: Math.min(a.xmin, b.xmin),
+  ymax: Math.max(a.ymax, b.ymax),
+  xmax: Math.max(a.xmax, b.xmax),
+});
+
+/**
+ * Every crop and equation box with its path in the response, in the same notation as the validator
+ */
+const boxedItems = (blocks: ContentBlock[]): { item: BoxedItem; path: string }[] =>
+  blocks.flatMap((block, i) => {
+    if (block.type === 'crop' || block.type === 'equation') {
+      return [{ item: block, path: `blocks[${i}].box` }];
+    }
+    if (block.type === 'paragraph' || block.type === 'listItem') {
+      return block.segments.flatMap((segment, j) =>
+        segment.type === 'crop' || segment.type === 'equation' ? [{ item: segment, path: `blocks[${i}].segments[${j}].box` }] : []);
+    }
+    return [];
+  });
+
+// Maps a box found in a region back onto the full image
+const fromRegion = (box: CropBox, region: CropBox): CropBox => {
+  const height = region.ymax - region.ymin;
+  const width = region.xmax - region.xmin;
+  return {
+    ymin: Math.round(region.ymin + (box.ymin / 1000) * height),
+    xmin: Math.round(region.xmin + (box.xmin / 1000) * width),
+    ymax: Math.round(region.ymin + (box.ymax / 1000) * height),
+    xmax: Math.round(region.xmin + (box.xmax / 1000) * width),
+  };
+};
+
+const addUsage = (total: OcrUsage | undefined, usage: OcrUsage | undefined): OcrUsage | undefined =>
+  total && usage
+    ? {
+        ...total,
+        inputTokens: total.inputTokens + usage.inputTokens,
+        outputTokens: total.outputTokens + usage.outputTokens,
+        latencyMs: total.latencyMs + usage.latencyMs,
+      }
+    : total ?? usage;
+
+/**
+ * Asks the model again for an unusable box, showing it only the area around it.
+ * Returns the box of the first crop or equation of the same kind found there, or null.
+ */
+const reaskBox = async (item: BoxedItem, index: number, reask: RegionReask): Promise<{ box: CropBox | null; usage?: OcrUsage }> => {
+  const region = clampBox({
+    ymin: item.box.ymin - REASK_MARGIN,
+    xmin: item.box.xmin - REASK_MARGIN,
+    ymax: item.box.ymax + REASK_MARGIN,
+    xmax: item.box.xmax + REASK_MARGIN,
+  });
+  const crop = await cropImage(reask.image, region.ymin, region.xmin, region.ymax, region.xmax);
+  const name = `${reask.image.name.replace(/\.[^.]+$/, '')}-region${index + 1}.png`;
+  const result = await reask.extract(new File([crop.data], name, { type: 'image/png' }));
+  const found = boxedItems(result.blocks).find(({ item: candidate }) => candidate.type === item.type && hasArea(candidate.box));
+  return { box: found ? fromRegion(found.item.box, region) : null, usage: result.usage };
+};
+
+/**
+ * Joins block-level crops that follow each other and overlap, such as a figure the model returned in two parts.
+ * Crops with a chemical structure are left alone, since the structure describes only their own part.
+ */
+const mergeOverlapping = (blocks: ContentBlock[], repairs: CropRepair[]): ContentBlock[] => {
+  const merged: ContentBlock[] = [];
+  blocks.forEach((block, i) => {
+    const previous = merged[merged.length - 1];
+    if (
+      block.type === 'crop' && previous?.type === 'crop' &&
+      !block.chemistry && !previous.chemistry &&
+      block.region === previous.region && block.column === previous.column &&
+      hasArea(block.box) && hasArea(previous.box) && overlaps(block.box, previous.box)
+    ) {
+      const joined: CropBlock = { ...previous, box: unionBox(previous.box, block.box) };
+      if (block.confidence !== undefined) {
+        joined.confidence = Math.min(block.confidence, previous.confidence ?? 1);
+      }
+      merged[merged.length - 1] = joined;
+      repairs.push({ type: CropRepairType.MERGED, path: `blocks[${i}].box`, before: toArray(block.box), after: joined.box });
+      return;
+    }
+    merged.push(block);
+  });
+  return merged;
+};
+
+/**
+ * Applies the crop settings to an OCR result: re-asks for unusable boxes (when enabled), joins overlapping crops
+ * and pads every usable box. The result's repairs log is extended, and the usage includes the extra calls.
+ */
+export const repairCrops = async (result: OcrResult, settings: CropSettings, reask?: RegionReask): Promise<OcrResult> => {
+  // Copies, so the boxes of the provider's result are not changed in place
+  let blocks: ContentBlock[] = structuredClone(result.blocks);
+  let repairs = [...(result.repairs ?? [])];
+  let usage = result.usage;
+
+  if (settings.reaskInvalid && reask) {
+    const invalid = boxedItems(blocks).filter(({ item }) => !hasArea(item.box));
+    for (const [index, { item, path }] of invalid.entries()) {
+      if (reask.canStart && !reask.canStart()) break;
+      try {
+        const answer = await reaskBox(item, index, reask);
+        usage = addUsage(usage, answer.usage);
+        if (!answer.box) continue;
+        const before = repairs.find(repair => repair.path === path && repair.type === CropRepairType.INVALID)?.before ?? toArray(item.box);
+        item.box = answer.box;
+        repairs = repairs.filter(repair => repair.path !== path);
+        repairs.push({ type: CropRepairType.REASKED, path, before, after: answer.box });
+      } catch (error) {
+        // A failed region call leaves the box invalid; cancelling the run still stops here
+        if (isAbortError(error)) throw error;
+        console.warn(`Re-asking for ${path} failed`, error);
+      }
+    }
+  }
+
+  if (settings.mergeOverlapping) {
+    blocks = mergeOverlapping(blocks, repairs);
+  }
+
+  if (settings.padding > 0) {
+    boxedItems(blocks).forEach(({ item }) => {
+      if (hasArea(item.box)) item.box = padBox(item.box, settings.padding);
+    });
+  }
+
+  return { ...result, blocks, usage, ...(repairs.length > 0 ? { repairs } : {}) };
+};
+
+const REPAIR_LABELS: Record<CropRepairType, string> = {
+  [CropRepairType.SCALED]: 'scaled from fractions',
+  [CropRepairType.CLAMPED]: 'clamped to the image',
+  [CropRepairType.SWAPPED]: 'swapped inverted coordinates',
+  [CropRepairType.MERGED]: 'merged with the crop before it',
+  [CropRepairType.REASKED]: 're-read from its region',
+  [CropRepairType.INVALID]: 'unusable, exported as [MISSING IMAGE]',
+};
+
+/**
+ * One-line description of a repair, e.g. "blocks[2].box clamped to the image: [120, 80, 1450, 900] → [120, 80, 1000, 900]"
+ */
+export const describeRepair = (repair: CropRepair): string => {
+  const before = `[${repair.before.join(', ')}]`;
+  const after = repair.after ? ` → [${toArray(repair.after).join(', ')}]` : '';
+  return `${repair.path} ${REPAIR_LABELS[repair.type]}: ${before}${after}`;
+};
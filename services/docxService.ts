@@ -1,220 +1,511 @@
-import { Document, Packer, Paragraph, TextRun, HeadingLevel, ImageRun } from "docx";
-import { UploadedFile } from "../types";
-
-// Helper to crop an image based on normalized 0-1000 coordinates
-const cropImage = async (file: File, ymin: number, xmin: number, ymax: number, xmax: number): Promise<ArrayBuffer> => {
-  return new Promise((resolve, reject) => {
-    const img = new Image();
-    const url = URL.createObjectURL(file);
-    
-    img.onload = () => {
-      try {
-        // Calculate dimensions
-        // Coordinates are 0-1000
-        const realX = (xmin / 1000) * img.width;
-        const realY = (ymin / 1000) * img.height;
-        const realW = ((xmax - xmin) / 1000) * img.width;
-        const realH = ((ymax - ymin) / 1000) * img.height;
-
-        // Ensure positive width/height
-        if (realW <= 0 || realH <= 0) {
-            reject(new Error("Invalid crop dimensions"));
-            return;
-        }
+import { Document, Packer, Paragraph, TextRun, HeadingLevel, ImageRun, AlignmentType, Table, TableRow, TableCell, WidthType, ShadingType, PageOrientation, ColumnBreak, SectionType, Header, Footer, PageNumber, TableOfContents, LevelFormat, HighlightColor, CommentRangeStart, CommentRangeEnd, CommentReference, INumberingOptions, ICommentOptions, ISectionOptions, ISectionPropertiesOptions, IRunOptions, Math as MathElement } from "docx";
+import { UploadedFile, ExportOptions, RunningHeaderMode, SourceSeparation, UncertainWordMarking, ContentBlock, ListItemBlock, InlineSegment, TableBlock, EquationSegment, EquationBlock, CropSegment, CropBlock } from "../types";
+import { expandTableGrid } from "./contentBlocks";
+import { latexToMath } from "./latexToOmml";
+import { getTextFormula, parseChemicalFormula } from "./chemistryService";
+import { getExportableFiles, getSourceImage, getSourceLabel } from "./fileUtils";
+import { AssetLoader, ImageAsset, MISSING_IMAGE_TEXT, createAssetLoader } from "./exportAssets";
+import { PageGeometry, getPageGeometry, ptToPx, ptToTwips } from "./pageLayout";
+import { applyStyleTemplate } from "./styleTemplateService";
+import { arrangeRegions, splitColumnRuns } from "./regionLayout";
+import { describeRegion, isLowConfidence } from "./confidence";
+import type { Exporter } from "./exporter";
 
-        const canvas = document.createElement('canvas');
-        canvas.width = realW;
-        canvas.height = realH;
-        const ctx = canvas.getContext('2d');
-        
-        if (!ctx) {
-            reject(new Error("Could not get canvas context"));
-            return;
-        }
+const HEADING_LEVELS = [
+  HeadingLevel.HEADING_1,
+  HeadingLevel.HEADING_2,
+  HeadingLevel.HEADING_3,
+  HeadingLevel.HEADING_4,
+  HeadingLevel.HEADING_5,
+  HeadingLevel.HEADING_6,
+];
+
+type Run = TextRun | ImageRun | MathElement | CommentRangeStart | CommentRangeEnd;
+type BlockElement = Paragraph | Table;
+type BodyElement = BlockElement | TableOfContents;
+
+// Gap between recreated text columns, in twips (0.5")
+const COLUMN_SPACING = 720;
+
+const BULLET_LIST = "bullet-list";
+const NUMBERED_LIST = "numbered-list";
+const BULLET_SYMBOLS = ["•", "◦", "▪"];
+
+// Word list definitions for nine nesting levels, indented 0.25" per level
+const NUMBERING: INumberingOptions = {
+  config: [
+    {
+      reference: BULLET_LIST,
+      levels: Array.from({ length: 9 }, (_, level) => ({
+        level,
+        format: LevelFormat.BULLET,
+        text: BULLET_SYMBOLS[level % BULLET_SYMBOLS.length],
+        alignment: AlignmentType.LEFT,
+        style: { paragraph: { indent: { left: 360 * (level + 1), hanging: 360 } } },
+      })),
+    },
+    {
+      reference: NUMBERED_LIST,
+      levels: Array.from({ length: 9 }, (_, level) => ({
+        level,
+        format: LevelFormat.DECIMAL,
+        text: `%${level + 1}.`,
+        alignment: AlignmentType.LEFT,
+        style: { paragraph: { indent: { left: 360 * (level + 1), hanging: 360 } } },
+      })),
+    },
+  ],
+};
+
+/**
+ * Hands out numbering instances for list runs. Every run of items at one level gets its own
+ * instance, so numbering restarts for each list and each sublist, as the other exporters count.
+ */
+const createListNumbering = () => {
+  let nextInstance = 1;
+  let runs: { ordered: boolean; instance: number }[] = [];
+
+  return {
+    reset: () => { runs = []; },
+    next: (item: ListItemBlock) => {
+      const current = runs[item.level];
+      // Deeper runs end when an item at this level appears
+      runs = runs.slice(0, item.level + 1);
+      if (!current || current.ordered !== item.ordered) {
+        runs[item.level] = { ordered: item.ordered, instance: nextInstance++ };
+      }
+      return {
+        reference: item.ordered ? NUMBERED_LIST : BULLET_LIST,
+        level: Math.min(item.level, 8),
+        instance: runs[item.level].instance,
+      };
+    },
+  };
+};
+
+type ListNumbering = ReturnType<typeof createListNumbering>;
+
+/**
+ * Collects the review comments of the document, which Word stores apart from the text
+ */
+const createReviewComments = () => {
+  const comments: ICommentOptions[] = [];
+
+  return {
+    comments,
+    // Anchors a comment to the runs; it appears in Word's review pane
+    wrap: (runs: Run[], note: string): Run[] => {
+      const id = comments.length;
+      comments.push({ id, author: "SnapScript", date: new Date(), children: [new Paragraph(note)] });
+      return [
+        new CommentRangeStart(id),
+        ...runs,
+        new CommentRangeEnd(id),
+        new TextRun({ children: [new CommentReference(id)] }),
+      ];
+    },
+  };
+};
+
+type ReviewComments = ReturnType<typeof createReviewComments>;
+
+const UNCERTAIN_COMMENT = "Uncertain reading: check this against the source image.";
+
+/**
+ * Writes text runs, marking those the model was unsure of with a highlight or a comment
+ */
+const createUncertainMarking = (mode: UncertainWordMarking, comments: ReviewComments) =>
+  (options: IRunOptions, uncertain?: boolean): Run[] => {
+    if (!uncertain || mode === UncertainWordMarking.NONE) {
+      return [new TextRun(options)];
+    }
+    if (mode === UncertainWordMarking.HIGHLIGHT) {
+      return [new TextRun({ ...options, highlight: HighlightColor.YELLOW })];
+    }
+    return comments.wrap([new TextRun(options)], UNCERTAIN_COMMENT);
+  };
+
+// What rendering blocks needs besides the blocks themselves
+interface RenderContext {
+  assets: AssetLoader;
+  lists: ListNumbering;
+  comments: ReviewComments;
+  textRuns: ReturnType<typeof createUncertainMarking>;
+  source: string; // Label of the image being rendered, for review comments
+  confidenceComments: boolean; // Comment on blocks with low confidence
+}
 
-        ctx.drawImage(img, realX, realY, realW, realH, 0, 0, realW, realH);
-        
-        canvas.toBlob((blob) => {
-           if (!blob) {
-               reject(new Error("Crop failed"));
-               return;
-           }
-           const reader = new FileReader();
-           reader.onloadend = () => {
-               URL.revokeObjectURL(url);
-               resolve(reader.result as ArrayBuffer);
-           };
-           reader.readAsArrayBuffer(blob);
-        }, 'image/png');
-      } catch (e) {
-        URL.revokeObjectURL(url);
-        reject(e);
+/**
+ * Anchors a comment to a low-confidence block's runs, naming the image and page region it came from
+ */
+const annotateConfidence = (block: ContentBlock, runs: Run[], { comments, source, confidenceComments }: RenderContext): Run[] => {
+  if (!confidenceComments || !isLowConfidence(block)) return runs;
+  const percent = Math.round(block.confidence! * 100);
+  return comments.wrap(runs, `Low confidence (${percent}%): ${source}, ${describeRegion(block)}. Check this passage against the scan.`);
+};
+
+const createImageRun = (asset: ImageAsset | null): Run =>
+  asset
+    ? new ImageRun({
+        data: asset.data,
+        transformation: { width: ptToPx(asset.width), height: ptToPx(asset.height) },
+        type: "png",
+        altText: asset.altText ? { name: "Structure", title: asset.altText, description: asset.altText } : undefined,
+      })
+    : new TextRun({ text: MISSING_IMAGE_TEXT, color: "FF0000", bold: true });
+
+/**
+ * Renders a chemistry crop: the structure drawn from its SMILES when it has one, linear formulas
+ * as sub/superscript text, otherwise the original crop
+ */
+const createChemistryRuns = async (file: File, crop: CropSegment | CropBlock, assets: AssetLoader): Promise<Run[]> => {
+  const formula = getTextFormula(crop.chemistry);
+
+  if (formula) {
+    return parseChemicalFormula(formula).map(part => new TextRun({
+      text: part.text,
+      subScript: part.script === 'subscript',
+      superScript: part.script === 'superscript',
+    }));
+  }
+
+  return [createImageRun(await assets.loadChemistry(file, crop))];
+};
+
+/**
+ * Writes an equation as a native Word equation, falling back to the cropped image
+ * when there is no LaTeX or it cannot be converted
+ */
+const createEquationRun = async (file: File, equation: EquationSegment | EquationBlock, assets: AssetLoader): Promise<Run> => {
+  if (equation.latex) {
+    try {
+      return new MathElement({ children: latexToMath(equation.latex) });
+    } catch (err) {
+      console.warn(`Falling back to image for equation "${equation.latex}"`, err);
+    }
+  }
+  return createImageRun(await assets.loadCrop(file, equation.box));
+};
+
+const renderSegments = async (file: File, segments: InlineSegment[], { assets, textRuns }: RenderContext): Promise<Run[]> => {
+  const runs: Run[] = [];
+  for (const segment of segments) {
+    if (segment.type === 'text') {
+      if (segment.text) {
+        runs.push(...textRuns({
+          text: segment.text,
+          bold: segment.bold,
+          italics: segment.italic,
+          underline: segment.underline ? {} : undefined,
+        }, segment.uncertain));
       }
-    };
+    } else if (segment.type === 'equation') {
+      runs.push(await createEquationRun(file, segment, assets));
+    } else {
+      runs.push(...await createChemistryRuns(file, segment, assets));
+    }
+  }
+  return runs;
+};
 
-    img.onerror = () => {
-        URL.revokeObjectURL(url);
-        reject(new Error("Failed to load image for cropping"));
-    };
+// The first line of the first cell carries the table's review comment, if any
+const renderTable = (table: TableBlock, annotate: (runs: Run[]) => Run[]): Table => {
+  const columnCount = expandTableGrid(table)[0]?.length ?? 1;
 
-    img.src = url;
+  return new Table({
+    width: { size: 100, type: WidthType.PERCENTAGE },
+    // Merged positions are left out; docx fills in the vertical-merge continuation cells itself
+    rows: table.rows.map((row, rowIndex) => new TableRow({
+      tableHeader: row.header,
+      children: row.cells.map((cell, cellIndex) => new TableCell({
+        columnSpan: cell.colSpan > 1 ? cell.colSpan : undefined,
+        rowSpan: cell.rowSpan > 1 ? cell.rowSpan : undefined,
+        width: { size: (100 / columnCount) * cell.colSpan, type: WidthType.PERCENTAGE },
+        shading: row.header ? { type: ShadingType.CLEAR, fill: "F1F5F9", color: "auto" } : undefined,
+        children: cell.text.split('\n').map((line, lineIndex) => {
+          const runs: Run[] = [new TextRun({ text: line, bold: row.header })];
+          return new Paragraph({ children: rowIndex + cellIndex + lineIndex === 0 ? annotate(runs) : runs });
+        }),
+      })),
+    })),
   });
 };
 
-export const generateAndDownloadDocx = async (files: UploadedFile[]) => {
-  // Filter only files that have successfully extracted text
-  const validFiles = files.filter(f => f.extractedText && f.extractedText.length > 0);
+/**
+ * Converts the content blocks of one source image into Word paragraphs and tables
+ */
+const renderBlocks = async (file: File, blocks: ContentBlock[], context: RenderContext): Promise<BlockElement[]> => {
+  const { assets, lists } = context;
+  const paragraphs: BlockElement[] = [];
+  lists.reset();
+
+  for (const block of blocks) {
+    if (block.type !== 'listItem') {
+      lists.reset();
+    }
+
+    switch (block.type) {
+      case 'heading':
+        paragraphs.push(new Paragraph({
+          children: annotateConfidence(block, [new TextRun(block.text)], context),
+          heading: HEADING_LEVELS[block.level - 1],
+          spacing: { before: 240, after: 120 },
+        }));
+        break;
+
+      case 'paragraph': {
+        const runs = await renderSegments(file, block.segments, context);
+        if (runs.length > 0) {
+          paragraphs.push(new Paragraph({ children: annotateConfidence(block, runs, context), spacing: { after: 120 } }));
+        }
+        break;
+      }
+
+      case 'listItem': {
+        paragraphs.push(new Paragraph({
+          children: annotateConfidence(block, await renderSegments(file, block.segments, context), context),
+          numbering: lists.next(block),
+          spacing: { after: 60 },
+        }));
+        break;
+      }
+
+      case 'table':
+        paragraphs.push(renderTable(block, runs => annotateConfidence(block, runs, context)));
+        // Empty paragraph keeps consecutive tables from merging and adds spacing after the table
+        paragraphs.push(new Paragraph({ spacing: { after: 120 } }));
+        break;
 
-  if (validFiles.length === 0) {
-    throw new Error("No text available to download.");
+      case 'crop':
+        paragraphs.push(new Paragraph({
+          children: await createChemistryRuns(file, block, assets),
+          spacing: { after: 120 },
+        }));
+        break;
+
+      case 'equation':
+        // Display equation on its own centered line
+        paragraphs.push(new Paragraph({
+          children: [await createEquationRun(file, block, assets)],
+          alignment: AlignmentType.CENTER,
+          spacing: { before: 120, after: 120 },
+        }));
+        break;
+    }
   }
 
-  const docChildren: Paragraph[] = [];
+  return paragraphs;
+};
 
-  // Add Title
-  docChildren.push(
-    new Paragraph({
-      text: "Extracted Content",
-      heading: HeadingLevel.TITLE,
-      spacing: { after: 400 },
-    })
-  );
+/**
+ * Page size, orientation and margins shared by every section of the document
+ */
+const getPageProperties = (page: PageGeometry): ISectionPropertiesOptions => ({
+  page: {
+    // docx expects the portrait size and swaps it for landscape
+    size: {
+      width: ptToTwips(Math.min(page.width, page.height)),
+      height: ptToTwips(Math.max(page.width, page.height)),
+      orientation: page.width > page.height ? PageOrientation.LANDSCAPE : PageOrientation.PORTRAIT,
+    },
+    margin: {
+      top: ptToTwips(page.margins.top),
+      right: ptToTwips(page.margins.right),
+      bottom: ptToTwips(page.margins.bottom),
+      left: ptToTwips(page.margins.left),
+    },
+  },
+});
 
-  // Constants for Page Scaling (Approximate A4 width in Points)
-  const MAX_PAGE_WIDTH = 500; // Safe width within margins
-  const PAGE_ASPECT_RATIO = 1.414; // Height/Width ratio for A4
+const PAGE_FURNITURE_SIZE = 18; // Half-points
 
-  // Iterate sequentially to handle async image reading
-  for (let index = 0; index < validFiles.length; index++) {
-    const file = validFiles[index];
+// Small grey line in a page header or footer
+const furnitureParagraph = (run: IRunOptions, alignment: (typeof AlignmentType)[keyof typeof AlignmentType]) =>
+  new Paragraph({ children: [new TextRun({ ...run, color: "666666", size: PAGE_FURNITURE_SIZE })], alignment });
+
+/**
+ * Page header of one image's section: its file name (section layout) and/or its moved running header
+ */
+const createHeader = (label: string | null, running: BlockElement[]) => new Header({
+  children: [
+    ...(label ? [furnitureParagraph({ text: label }, AlignmentType.RIGHT)] : []),
+    ...running,
+  ],
+});
+
+/**
+ * Page footer of one image's section: its moved running footer and/or the page number (section layout)
+ */
+const createFooter = (pageNumbers: boolean, running: BlockElement[]) => new Footer({
+  children: [
+    ...running,
+    ...(pageNumbers
+      ? [furnitureParagraph({ children: ["Page ", PageNumber.CURRENT, " of ", PageNumber.TOTAL_PAGES] }, AlignmentType.CENTER)]
+      : []),
+  ],
+});
+
+const createSourceHeading = (file: UploadedFile, fontSizePt: number) => new Paragraph({
+  children: [
+    new TextRun({
+      text: `Source: ${getSourceLabel(file)}`,
+      bold: true,
+      italics: true,
+      color: "666666",
+      size: Math.max(2, fontSizePt - 2) * 2, // Half-points, slightly smaller than body text
+    }),
+  ],
+  spacing: { before: 400, after: 200 },
+  heading: HeadingLevel.HEADING_3
+});
+
+// Part of one image's content that shares a column layout; each becomes a Word section
+interface SectionPart {
+  columns: number;
+  children: BodyElement[];
+}
+
+/**
+ * Renders the body of one image as full-width and multi-column parts. Within a multi-column part,
+ * a column break starts each column the layout analysis found, so the text splits where it did on the page.
+ */
+const renderColumnParts = async (file: File, blocks: ContentBlock[], recreateColumns: boolean, context: RenderContext): Promise<SectionPart[]> => {
+  if (!recreateColumns) {
+    return [{ columns: 1, children: await renderBlocks(file, blocks, context) }];
+  }
+
+  const parts: SectionPart[] = [];
+  for (const run of splitColumnRuns(blocks)) {
+    const children: BodyElement[] = [];
+    let column = run.blocks[0].column;
+    let start = 0;
+    for (let i = 0; i <= run.blocks.length; i++) {
+      if (i < run.blocks.length && run.blocks[i].column === column) continue;
+      if (children.length > 0) {
+        children.push(new Paragraph({ children: [new ColumnBreak()] }));
+      }
+      children.push(...await renderBlocks(file, run.blocks.slice(start, i), context));
+      start = i;
+      column = run.blocks[i]?.column;
+    }
+    parts.push({ columns: run.columns, children });
+  }
+  return parts;
+};
+
+/**
+ * Builds the Word document without packing it, so the app can pack it as a Blob and Node as a Buffer
+ */
+export const createDocxDocument = async (files: UploadedFile[], { layout }: ExportOptions): Promise<Document> => {
+  const validFiles = getExportableFiles(files);
+  const page = getPageGeometry(layout);
+  const properties = getPageProperties(page);
+  const comments = createReviewComments();
+  const baseContext: RenderContext = {
+    assets: createAssetLoader(page, layout.cropRefinement),
+    lists: createListNumbering(),
+    comments,
+    textRuns: createUncertainMarking(layout.uncertainWords, comments),
+    source: '',
+    confidenceComments: layout.confidenceComments,
+  };
+  // Word cannot anchor comments in page headers and footers, so moved running headers get highlights only
+  const furnitureContext: RenderContext = {
+    ...baseContext,
+    textRuns: createUncertainMarking(
+      layout.uncertainWords === UncertainWordMarking.COMMENT ? UncertainWordMarking.HIGHLIGHT : layout.uncertainWords,
+      comments
+    ),
+    confidenceComments: false,
+  };
+  const perSourceSections = layout.sourceSeparation === SourceSeparation.SECTION;
+  const movesRunningHeaders = layout.runningHeaders === RunningHeaderMode.MOVE;
 
-    // Header for the source image
-    docChildren.push(
+  const frontMatter: BodyElement[] = [];
+  if (layout.includeTitle) {
+    frontMatter.push(
       new Paragraph({
-        children: [
-          new TextRun({
-            text: `Source: ${file.file.name}`,
-            bold: true,
-            italics: true,
-            color: "666666",
-            size: 20, // 10pt
-          }),
-        ],
-        spacing: { before: 400, after: 200 },
-        heading: HeadingLevel.HEADING_3
+        text: "Extracted Content",
+        heading: HeadingLevel.TITLE,
+        spacing: { after: 400 },
       })
     );
+  }
+  if (layout.tableOfContents) {
+    // A field Word fills in from the heading styles when the document is opened (see updateFields below)
+    frontMatter.push(
+      // Not a heading style, so the contents list does not list itself
+      new Paragraph({ children: [new TextRun({ text: "Contents", bold: true, size: 32 })], spacing: { after: 200 } }),
+      new TableOfContents("Contents", { hyperlink: true, headingStyleRange: "1-3" }),
+    );
+  }
 
-    const fullText = file.extractedText!;
-    
-    // Regex to find [[CROP:ymin,xmin,ymax,xmax]]
-    const cropRegex = /(\[\[CROP:\d+,\d+,\d+,\d+\]\])/g;
-    const parts = fullText.split(cropRegex);
-
-    let currentRuns: (TextRun | ImageRun)[] = [];
+  const sections: ISectionOptions[] = [];
+  if (frontMatter.length > 0) {
+    sections.push({ properties, children: frontMatter });
+  }
 
-    const flushParagraph = () => {
-      if (currentRuns.length > 0) {
-        docChildren.push(new Paragraph({
-          children: currentRuns,
-          spacing: { after: 120 }
-        }));
-        currentRuns = [];
-      }
-    };
-
-    for (let i = 0; i < parts.length; i++) {
-      const part = parts[i];
-      if (!part) continue;
-
-      // Check if this part is a crop tag
-      const match = part.match(/^\[\[CROP:(\d+),(\d+),(\d+),(\d+)\]\]$/);
-
-      if (match) {
-        // It is a crop tag
-        const ymin = parseInt(match[1]);
-        const xmin = parseInt(match[2]);
-        const ymax = parseInt(match[3]);
-        const xmax = parseInt(match[4]);
-
-        try {
-          const imageBuffer = await cropImage(file.file, ymin, xmin, ymax, xmax);
-          
-          // Calculate proportional size relative to page width
-          // Coordinate width (0-1000) -> Percentage of page width
-          const coordWidth = xmax - xmin;
-          const coordHeight = ymax - ymin;
-          
-          // Determine display width in the Docx
-          // If it's a small crop (e.g. inline formula), it will appear small.
-          // If it's a large crop (e.g. big diagram), it will appear large.
-          const displayWidth = (coordWidth / 1000) * MAX_PAGE_WIDTH;
-          const displayHeight = (coordHeight / 1000) * (MAX_PAGE_WIDTH * PAGE_ASPECT_RATIO);
-
-          currentRuns.push(
-            new ImageRun({
-              data: imageBuffer,
-              transformation: {
-                width: Math.max(20, displayWidth), // Minimum 20px visibility
-                height: Math.max(20, displayHeight),
-              },
-              type: "png",
-            })
-          );
-        } catch (err) {
-          console.error("Failed to crop and embed image", err);
-          currentRuns.push(
-             new TextRun({ text: "[MISSING IMAGE]", color: "red", bold: true })
-          );
-        }
+  // Iterate sequentially to handle async image reading
+  for (const [index, file] of validFiles.entries()) {
+    const image = getSourceImage(file);
+    const context = { ...baseContext, source: getSourceLabel(file) };
+    const { headers, body, footers } = arrangeRegions(file.blocks!, layout.runningHeaders);
+    const parts = await renderColumnParts(image, body, layout.recreateColumns, context);
 
+    if (layout.includeSourceHeaders) {
+      const heading = createSourceHeading(file, layout.fontSizePt);
+      if (parts[0]?.columns === 1) {
+        parts[0].children.unshift(heading);
       } else {
-        // It is text. Handle newlines correctly to preserve paragraph structure.
-        const lines = part.split('\n');
-        
-        lines.forEach((line, lineIndex) => {
-          if (line) {
-             currentRuns.push(new TextRun({ text: line, size: 24 }));
-          }
-
-          // If this is NOT the last line, it means we hit a newline character in the split.
-          // We must flush the current paragraph and start a new one.
-          if (lineIndex < lines.length - 1) {
-            flushParagraph();
-          }
-        });
+        parts.unshift({ columns: 1, children: [heading] });
       }
     }
-    
-    // Flush any remaining runs
-    flushParagraph();
-
-    // Add a page break after each file except the last one
-    if (index < validFiles.length - 1) {
-      docChildren.push(new Paragraph({
-        children: [new TextRun({ text: "", break: 1 })]
-      }));
-    }
+    if (parts.length === 0) continue;
+
+    // Unless the layout is continuous, each source starts on a new page, and so does the first one after a contents list
+    const newPage = layout.sourceSeparation !== SourceSeparation.CONTINUOUS
+      && (index > 0 || (frontMatter.length > 0 && (perSourceSections || layout.tableOfContents)));
+
+    // Every source sets its own page header and footer when it has any, so none carries over from the previous source
+    const ownsHeaderFooter = perSourceSections || movesRunningHeaders;
+    const headerFooter = ownsHeaderFooter
+      ? {
+          headers: { default: createHeader(perSourceSections ? getSourceLabel(file) : null, await renderBlocks(image, headers, furnitureContext)) },
+          footers: { default: createFooter(perSourceSections, await renderBlocks(image, footers, furnitureContext)) },
+        }
+      : {};
+
+    parts.forEach((part, partIndex) => sections.push({
+      properties: {
+        ...properties,
+        type: partIndex === 0 && newPage ? SectionType.NEXT_PAGE : SectionType.CONTINUOUS,
+        column: part.columns > 1 ? { count: part.columns, space: COLUMN_SPACING, equalWidth: true } : undefined,
+      },
+      ...(partIndex === 0 ? headerFooter : {}),
+      children: part.children,
+    }));
   }
 
-  const doc = new Document({
-    sections: [
-      {
-        properties: {},
-        children: docChildren,
+  return new Document({
+    features: layout.tableOfContents ? { updateFields: true } : undefined,
+    numbering: NUMBERING,
+    comments: { children: comments.comments },
+    styles: {
+      default: {
+        document: { run: { font: layout.fontFamily, size: layout.fontSizePt * 2 } },
       },
-    ],
+    },
+    sections,
   });
+};
+
+const buildDocx = async (files: UploadedFile[], options: ExportOptions): Promise<Blob> => {
+  const blob = await Packer.toBlob(await createDocxDocument(files, options));
+  return options.styleTemplate ? applyStyleTemplate(blob, options.styleTemplate) : blob;
+};
 
-  const blob = await Packer.toBlob(doc);
-  
-  // Use native download method
-  const url = window.URL.createObjectURL(blob);
-  const link = document.createElement('a');
-  link.href = url;
-  link.download = "SnapScript_Extracted.docx";
-  document.body.appendChild(link);
-  link.click();
-  document.body.removeChild(link);
-  window.URL.revokeObjectURL(url);
+export const docxExporter: Exporter = {
+  name: 'Word (.docx)',
+  extension: 'docx',
+  export: buildDocx,
 };
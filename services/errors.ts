@@ -0,0 +1,70 @@
+/**
+ * Error for a failed HTTP call to an OCR backend, keeping the status so callers can decide whether to retry
+ */
+export class OcrHttpError extends Error {
+  constructor(message: string, readonly status: number, readonly retryAfterMs?: number) {
+    super(message);
+    this.name = 'OcrHttpError';
+  }
+}
+
+/**
+ * Error for a request that got no response at all (offline, DNS, connection refused), which is worth retrying
+ */
+export class NetworkError extends Error {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = 'NetworkError';
+  }
+}
+
+/**
+ * Reads the HTTP status from our own errors and from SDK errors (e.g. the Gemini ApiError)
+ */
+export const getErrorStatus = (error: unknown): number | undefined => {
+  const status = (error as { status?: unknown } | null)?.status;
+  return typeof status === 'number' ? status : undefined;
+};
+
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof DOMException && error.name === 'AbortError';
+
+// What fetch() rejects with when the request itself fails, in Chrome, Firefox, Safari and Node. SDKs that call
+// fetch (e.g. @google/genai) pass these through, so they are recognised by message rather than wrapped.
+const FETCH_FAILURE_MESSAGES = /^(Failed to fetch|NetworkError when attempting to fetch resource\.?|Load failed|fetch failed)$/;
+
+/**
+ * fetch() that rejects with a NetworkError when no response arrives; cancelling still rejects with the AbortError
+ */
+export const fetchOrNetworkError = async (input: string, init?: RequestInit): Promise<Response> => {
+  try {
+    return await fetch(input, init);
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    throw new NetworkError(`Could not reach ${input}`, { cause: error });
+  }
+};
+
+/**
+ * Rate limits, server errors and network failures are worth retrying; anything else is not
+ */
+export const isRetryableError = (error: unknown): boolean => {
+  if (isAbortError(error)) return false;
+  const status = getErrorStatus(error);
+  if (status !== undefined) {
+    return status === 408 || status === 429 || status >= 500;
+  }
+  // Other TypeErrors are programming errors, and fail the same way on every attempt
+  return error instanceof NetworkError || (error instanceof TypeError && FETCH_FAILURE_MESSAGES.test(error.message));
+};
+
+/**
+ * Parses a Retry-After header (seconds or HTTP date) into milliseconds
+ */
+export const parseRetryAfter = (header: string | null): number | undefined => {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
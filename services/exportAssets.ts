@@ -0,0 +1,155 @@
+import { ContentBlock, CropBlock, CropBox, CropRefinement, CropSegment, ListItemBlock } from "../types";
+import { cropImage, renderSmiles } from "./imageService";
+import { PageGeometry } from "./pageLayout";
+
+// Building blocks shared by all exporters, so every format walks the blocks and crops images the same way
+
+export const MISSING_IMAGE_TEXT = "[MISSING IMAGE]";
+
+// Smallest side of an embedded image, so tiny inline crops stay visible
+const MIN_DISPLAY_SIZE = 12;
+
+export interface ImageAsset {
+  data: ArrayBuffer; // PNG bytes
+  width: number; // Display size in points
+  height: number;
+  altText?: string;
+}
+
+/**
+ * Display size of a crop in points. The crop takes the same share of the content width as it does
+ * of the source image width, keeps its pixel aspect ratio, and is scaled down to fit the content height.
+ */
+export const getDisplaySize = (box: CropBox, pixelWidth: number, pixelHeight: number, page: PageGeometry) => {
+  let width = ((box.xmax - box.xmin) / 1000) * page.contentWidth;
+  let height = width * (pixelHeight / pixelWidth);
+  const scale = Math.min(page.contentHeight / height, 1) * Math.max(MIN_DISPLAY_SIZE / Math.min(width, height), 1);
+  width *= scale;
+  height *= scale;
+  return { width, height };
+};
+
+/**
+ * Loads the images of one export, fitted to their content as configured and sized for its page layout
+ */
+export const createAssetLoader = (page: PageGeometry, refinement?: CropRefinement) => {
+  /**
+   * Crops a region of the source image; null when cropping fails so callers can write MISSING_IMAGE_TEXT
+   */
+  const loadCrop = async (file: File, box: CropBox, altText?: string): Promise<ImageAsset | null> => {
+    try {
+      const crop = await cropImage(file, box.ymin, box.xmin, box.ymax, box.xmax, refinement);
+      // A trimmed crop keeps the scale of the page: less white space means a smaller image, not a larger one
+      return { data: crop.data, ...getDisplaySize(crop.box ?? box, crop.width, crop.height, page), altText };
+    } catch (err) {
+      console.error("Failed to crop and embed image", err);
+      return null;
+    }
+  };
+
+  /**
+   * Image for a chemistry crop: the structure drawn from its SMILES (kept as alt text),
+   * or the original crop when there is no SMILES or it cannot be drawn
+   */
+  const loadChemistry = async (file: File, crop: CropSegment | CropBlock): Promise<ImageAsset | null> => {
+    const smiles = crop.chemistry?.smiles;
+    const original = await loadCrop(file, crop.box, smiles);
+
+    if (smiles && original) {
+      try {
+        // Same size as the crop it replaces, drawn at twice the resolution so it stays sharp when printed
+        const data = await renderSmiles(smiles, original.width * 2, original.height * 2);
+        return { ...original, data };
+      } catch (err) {
+        console.warn(`Falling back to image for SMILES "${smiles}"`, err);
+      }
+    }
+
+    return original;
+  };
+
+  return { loadCrop, loadChemistry };
+};
+
+export type AssetLoader = ReturnType<typeof createAssetLoader>;
+
+// Consecutive list items are grouped so formats with nested list markup can open and close lists
+export type BlockGroup = Exclude<ContentBlock, ListItemBlock> | { type: 'list'; items: ListItemBlock[] };
+
+export const groupBlocks = (blocks: ContentBlock[]): BlockGroup[] => {
+  const groups: BlockGroup[] = [];
+  for (const block of blocks) {
+    const last = groups[groups.length - 1];
+    if (block.type !== 'listItem') {
+      groups.push(block);
+    } else if (last?.type === 'list') {
+      last.items.push(block);
+    } else {
+      groups.push({ type: 'list', items: [block] });
+    }
+  }
+  return groups;
+};
+
+/**
+ * Text markers for a run of list items ("-" or "1.", "2.", ...), numbering each nesting level separately
+ */
+export const listMarkers = (items: ListItemBlock[]): string[] => {
+  const counters: number[] = [];
+  return items.map((item, index) => {
+    counters.length = item.level + 1;
+    // A bullet item at the same level ends the numbered run
+    const previous = items.slice(0, index).reverse().find(other => other.level <= item.level);
+    const continues = previous?.level === item.level && previous.ordered === item.ordered;
+    const count = (continues ? counters[item.level] ?? 0 : 0) + 1;
+    counters[item.level] = count;
+    return item.ordered ? `${count}.` : '-';
+  });
+};
+
+export interface ListMarkup {
+  open: (ordered: boolean) => string;
+  close: (ordered: boolean) => string;
+  openItem: string;
+  closeItem: string;
+}
+
+/**
+ * Nests already rendered list items by level for markup where a sub-list sits inside its parent item
+ */
+export const renderNestedList = (items: ListItemBlock[], contents: string[], markup: ListMarkup): string => {
+  const stack: ListItemBlock[] = [];
+  let out = '';
+  const closeList = () => {
+    out += markup.closeItem + markup.close(stack.pop()!.ordered);
+  };
+
+  items.forEach((item, index) => {
+    while (stack.length > 0 && stack[stack.length - 1].level > item.level) {
+      closeList();
+    }
+    const current = stack[stack.length - 1];
+    if (current && current.level === item.level && current.ordered === item.ordered) {
+      out += markup.closeItem;
+    } else {
+      if (current && current.level === item.level) {
+        closeList();
+      }
+      out += markup.open(item.ordered);
+      stack.push(item);
+    }
+    out += markup.openItem + contents[index];
+  });
+
+  while (stack.length > 0) {
+    closeList();
+  }
+  return out;
+};
+
+export const escapeXml = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
@@ -0,0 +1,46 @@
+import { ExportFormat, ExportOptions, UploadedFile } from "../types";
+import { docxExporter } from "./docxService";
+import { markdownExporter } from "./markdownExporter";
+import { htmlExporter } from "./htmlExporter";
+import { odtExporter } from "./odtExporter";
+import { textExporter } from "./textExporter";
+import { searchablePdfExporter } from "./searchablePdfExporter";
+import { downloadBlob } from "./fileUtils";
+
+/**
+ * Common interface for output formats.
+ * Every exporter renders the same content blocks, with crops taken from exportAssets.ts,
+ * and follows the layout settings as far as its format allows.
+ */
+export interface Exporter {
+  name: string;
+  extension: string; // File extension of the download, without the dot
+  export: (files: UploadedFile[], options: ExportOptions) => Promise<Blob>;
+}
+
+export const createExporter = (format: ExportFormat): Exporter => {
+  switch (format) {
+    case ExportFormat.MARKDOWN:
+      return markdownExporter;
+    case ExportFormat.HTML:
+      return htmlExporter;
+    case ExportFormat.ODT:
+      return odtExporter;
+    case ExportFormat.TEXT:
+      return textExporter;
+    case ExportFormat.SEARCHABLE_PDF:
+      return searchablePdfExporter;
+    case ExportFormat.DOCX:
+    default:
+      return docxExporter;
+  }
+};
+
+/**
+ * Exports the files in the chosen format and downloads the result
+ */
+export const exportAndDownload = async (files: UploadedFile[], format: ExportFormat, options: ExportOptions) => {
+  const exporter = createExporter(format);
+  const blob = await exporter.export(files, options);
+  downloadBlob(blob, `SnapScript_Extracted.${exporter.extension}`);
+};
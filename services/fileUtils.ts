@@ -0,0 +1,62 @@
+import { UploadedFile } from "../types";
+
+/**
+ * Converts a File object to a Base64 string (without the data URL prefix)
+ */
+export const fileToBase64 = async (file: File): Promise<string> =>
+  arrayBufferToBase64(await file.arrayBuffer());
+
+/**
+ * Human-readable origin of an item, e.g. "scan.pdf (page 3)" for rasterised PDF pages
+ */
+export const getSourceLabel = (item: UploadedFile): string =>
+  item.pageNumber ? `${item.sourceName ?? item.file.name} (page ${item.pageNumber})` : item.file.name;
+
+/**
+ * The image OCR ran on, which crop boxes refer to: the pre-processed version when there is one
+ */
+export const getSourceImage = (item: UploadedFile): File => item.processedFile ?? item.file;
+
+export const revokePreviewUrls = (item: UploadedFile) => {
+  URL.revokeObjectURL(item.previewUrl);
+  if (item.processedPreviewUrl) {
+    URL.revokeObjectURL(item.processedPreviewUrl);
+  }
+};
+
+/**
+ * Files with extracted content, in document order; throws when there is nothing to export
+ */
+export const getExportableFiles = (files: UploadedFile[]): UploadedFile[] => {
+  const validFiles = files.filter(f => f.blocks && f.blocks.length > 0);
+  if (validFiles.length === 0) {
+    throw new Error("No text available to download.");
+  }
+  return validFiles;
+};
+
+/**
+ * Base64 encoding of binary data, in chunks to stay within the argument limit of String.fromCharCode
+ */
+export const arrayBufferToBase64 = (buffer: ArrayBuffer): string => {
+  const bytes = new Uint8Array(buffer);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+/**
+ * Saves a blob through a temporary download link
+ */
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = window.URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  window.URL.revokeObjectURL(url);
+};
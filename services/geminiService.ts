@@ -1,61 +1,36 @@
 import { GoogleGenAI } from "@google/genai";
+import { ExtractionOptions, OcrResult, PromptProfile } from "../types";
+import type { OcrProvider } from "./ocrProvider";
+import { buildSystemInstruction } from "./prompts";
+import { OCR_RESPONSE_SCHEMA, parseOcrResponse } from "./blockSchema";
+import { fileToBase64 } from "./fileUtils";
+import { toAcceptedImage } from "./imageService";
 
-// Initialize the client
-// API Key must be provided via environment variable as per instructions
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+// Used unless the prompt profile names another Gemini model
+export const DEFAULT_GEMINI_MODEL = 'gemini-2.5-flash';
 
-const SYSTEM_INSTRUCTION = `
-You are an expert OCR (Optical Character Recognition) assistant specialized in academic and scientific documents. 
-Your task is to transcribe the text from the provided image, but INTELLIGENTLY HANDLE complex elements.
-
-LOGIC FLOW:
-1.  Scan the image from top to bottom, left to right.
-2.  Identify regions: "Text" vs "Complex Element" (Chemical Formulas, Organic Structures, Geometry Diagrams, Charts).
-3.  IF TEXT: Transcribe it exactly as it appears. Maintain lists and basic formatting.
-4.  IF COMPLEX ELEMENT:
-    -   DO NOT transcribe the text inside this element.
-    -   DO NOT describe the element.
-    -   Calculate the bounding box (0-1000 scale).
-    -   Output ONLY the tag: [[CROP:ymin,xmin,ymax,xmax]]
-    -   Resume transcription AFTER the element.
-
-RULES:
--   ymin, xmin, ymax, xmax are integers from 0 to 1000.
--   The CROP tag replaces the content. Example: "The reaction of [[CROP:200,100,400,300]] yields..."
--   If a formula is inline (inside a sentence), put the tag inline.
--   If handwriting is illegible, write [Illegible].
--   Do not output markdown code blocks. Just raw text with the tags.
-`;
+// Image types Gemini reads; others are converted to PNG before sending
+export const GEMINI_IMAGE_TYPES: ReadonlySet<string> = new Set(['image/png', 'image/jpeg', 'image/webp', 'image/heic', 'image/heif']);
 
 /**
- * Converts a File object to a Base64 string required by Gemini API
+ * Creates a provider that calls the Gemini API directly with the given key (2.5 Flash by default).
+ * The browser only does this with a key the user entered; deployments with the proxy server
+ * use proxyOcrService.ts instead, and the server and the command line pass their own key.
  */
-const fileToGenerativePart = async (file: File): Promise<string> => {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.onloadend = () => {
-      const base64String = reader.result as string;
-      // Remove the data URL prefix (e.g., "data:image/jpeg;base64,")
-      const base64Data = base64String.split(',')[1];
-      resolve(base64Data);
-    };
-    reader.onerror = reject;
-    reader.readAsDataURL(file);
-  });
-};
+export const createGeminiProvider = (apiKey: string): OcrProvider => {
+  const ai = new GoogleGenAI({ apiKey });
+
+  const extract = async (upload: File, options: ExtractionOptions, profile: PromptProfile, signal?: AbortSignal): Promise<OcrResult> => {
+    const file = await toAcceptedImage(upload, GEMINI_IMAGE_TYPES);
+    const base64Data = await fileToBase64(file);
 
-/**
- * Extracts text from a single image file using Gemini 2.5 Flash
- */
-export const extractTextFromImage = async (file: File): Promise<string> => {
-  try {
-    const base64Data = await fileToGenerativePart(file);
-    
     // Determine mimeType (default to image/png if unsure, though GenAI is flexible)
     const mimeType = file.type || 'image/png';
 
+    const model = profile.model || DEFAULT_GEMINI_MODEL;
+    const startedAt = performance.now();
     const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
+      model,
       contents: {
         parts: [
           {
@@ -65,27 +40,40 @@ export const extractTextFromImage = async (file: File): Promise<string> => {
             }
           },
           {
-            text: "Transcribe text. Replace any charts, graphs, or chemical formulas with [[CROP:ymin,xmin,ymax,xmax]] tags."
+            text: profile.userPrompt
           }
         ]
       },
       config: {
-        systemInstruction: SYSTEM_INSTRUCTION,
-        temperature: 0.1, // Low temperature for more deterministic/accurate extraction
+        systemInstruction: buildSystemInstruction(options, profile),
+        temperature: profile.temperature, // Kept low by the presets for more deterministic/accurate extraction
+        responseMimeType: 'application/json',
+        responseJsonSchema: OCR_RESPONSE_SCHEMA,
+        abortSignal: signal,
       }
     });
 
     // Directly access .text property as per SDK guidelines
     const text = response.text;
-    
+
     if (!text) {
       throw new Error("No text generated from the model.");
     }
 
-    return text.trim();
+    const usage = response.usageMetadata;
+    return {
+      ...parseOcrResponse(text),
+      usage: usage && {
+        model: response.modelVersion ?? model,
+        inputTokens: usage.promptTokenCount ?? 0,
+        outputTokens: (usage.candidatesTokenCount ?? 0) + (usage.thoughtsTokenCount ?? 0),
+        latencyMs: Math.round(performance.now() - startedAt),
+      },
+    };
+  };
 
-  } catch (error) {
-    console.error("Error calling Gemini API:", error);
-    throw error;
-  }
+  return {
+    name: 'Gemini',
+    extract,
+  };
 };
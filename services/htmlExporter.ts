@@ -0,0 +1,157 @@
+import { ContentBlock, CropBlock, CropSegment, EquationBlock, EquationSegment, ExportOptions, InlineSegment, LayoutSettings, SourceSeparation, TableBlock, TextSegment, UploadedFile } from "../types";
+import type { Exporter } from "./exporter";
+import { getTextFormula, parseChemicalFormula } from "./chemistryService";
+import { arrayBufferToBase64, getExportableFiles, getSourceImage, getSourceLabel } from "./fileUtils";
+import { getExportBlocks } from "./regionLayout";
+import { AssetLoader, ImageAsset, MISSING_IMAGE_TEXT, createAssetLoader, escapeXml, groupBlocks, renderNestedList } from "./exportAssets";
+import { PageGeometry, getPageGeometry, ptToPx } from "./pageLayout";
+
+// Self-contained HTML export: crops are embedded as base64 data URLs, so the file can be shared on its own.
+// Equations are embedded as their cropped image, with the LaTeX as alt text.
+
+// The body is as wide as the content area of the configured page, so image sizes match the Word export
+const getStyles = (layout: LayoutSettings, page: PageGeometry) => `
+  body { font-family: "${layout.fontFamily.replace(/["<>]/g, '')}", Arial, sans-serif; font-size: ${layout.fontSizePt}pt; line-height: 1.5; max-width: ${Math.round(ptToPx(page.contentWidth))}px; margin: 2rem auto; padding: 0 1rem; color: #111; }
+  .source { color: #666; font-size: 0.85em; font-weight: bold; font-style: italic; margin-top: 2rem; }
+  section + section { border-top: 1px solid #ddd; }
+  table { border-collapse: collapse; width: 100%; margin-bottom: 1rem; }
+  th, td { border: 1px solid #333; padding: 4px 8px; text-align: left; vertical-align: top; }
+  th { background: #f1f5f9; }
+  img { vertical-align: middle; }
+  .equation { text-align: center; }
+  .missing { color: red; font-weight: bold; }${layout.sourceSeparation === SourceSeparation.CONTINUOUS ? '' : `
+  @media print { section + section { break-before: page; border-top: none; } }`}
+`;
+
+const renderImage = (asset: ImageAsset | null): string => {
+  if (!asset) return `<span class="missing">${MISSING_IMAGE_TEXT}</span>`;
+  const alt = escapeXml(asset.altText ?? '');
+  return `<img src="data:image/png;base64,${arrayBufferToBase64(asset.data)}" width="${Math.round(ptToPx(asset.width))}" height="${Math.round(ptToPx(asset.height))}" alt="${alt}" title="${alt}">`;
+};
+
+const formulaToHtml = (formula: string): string =>
+  parseChemicalFormula(formula)
+    .map(part => {
+      const text = escapeXml(part.text);
+      return part.script === 'subscript' ? `<sub>${text}</sub>` : part.script === 'superscript' ? `<sup>${text}</sup>` : text;
+    })
+    .join('');
+
+const renderCrop = async (file: File, crop: CropSegment | CropBlock, assets: AssetLoader): Promise<string> => {
+  const formula = getTextFormula(crop.chemistry);
+  return formula ? formulaToHtml(formula) : renderImage(await assets.loadChemistry(file, crop));
+};
+
+const renderEquation = async (file: File, equation: EquationSegment | EquationBlock, assets: AssetLoader): Promise<string> =>
+  renderImage(await assets.loadCrop(file, equation.box, equation.latex));
+
+const renderText = (segment: TextSegment): string => {
+  let html = escapeXml(segment.text);
+  if (segment.italic) html = `<em>${html}</em>`;
+  if (segment.bold) html = `<strong>${html}</strong>`;
+  if (segment.underline) html = `<u>${html}</u>`;
+  return html;
+};
+
+const renderSegments = async (file: File, segments: InlineSegment[], assets: AssetLoader): Promise<string> => {
+  const parts: string[] = [];
+  for (const segment of segments) {
+    if (segment.type === 'text') {
+      parts.push(renderText(segment));
+    } else if (segment.type === 'equation') {
+      parts.push(await renderEquation(file, segment, assets));
+    } else {
+      parts.push(await renderCrop(file, segment, assets));
+    }
+  }
+  return parts.join('');
+};
+
+const renderTable = (table: TableBlock): string => {
+  const renderRow = (row: TableBlock['rows'][number]) => {
+    const tag = row.header ? 'th' : 'td';
+    const cells = row.cells.map(cell => {
+      const spans = `${cell.colSpan > 1 ? ` colspan="${cell.colSpan}"` : ''}${cell.rowSpan > 1 ? ` rowspan="${cell.rowSpan}"` : ''}`;
+      return `<${tag}${spans}>${escapeXml(cell.text).replace(/\n/g, '<br>')}</${tag}>`;
+    });
+    return `<tr>${cells.join('')}</tr>`;
+  };
+
+  const head = table.rows.filter(row => row.header).map(renderRow).join('\n');
+  const body = table.rows.filter(row => !row.header).map(renderRow).join('\n');
+  return `<table>\n${head ? `<thead>\n${head}\n</thead>\n` : ''}<tbody>\n${body}\n</tbody>\n</table>`;
+};
+
+const renderBlocks = async (file: File, blocks: ContentBlock[], assets: AssetLoader): Promise<string[]> => {
+  const elements: string[] = [];
+
+  for (const group of groupBlocks(blocks)) {
+    switch (group.type) {
+      case 'heading':
+        elements.push(`<h${group.level}>${escapeXml(group.text)}</h${group.level}>`);
+        break;
+      case 'paragraph':
+        elements.push(`<p>${await renderSegments(file, group.segments, assets)}</p>`);
+        break;
+      case 'list': {
+        const contents: string[] = [];
+        for (const item of group.items) {
+          contents.push(await renderSegments(file, item.segments, assets));
+        }
+        elements.push(renderNestedList(group.items, contents, {
+          open: ordered => ordered ? '<ol>' : '<ul>',
+          close: ordered => ordered ? '</ol>' : '</ul>',
+          openItem: '<li>',
+          closeItem: '</li>',
+        }));
+        break;
+      }
+      case 'table':
+        elements.push(renderTable(group));
+        break;
+      case 'crop':
+        elements.push(`<p>${await renderCrop(file, group, assets)}</p>`);
+        break;
+      case 'equation':
+        elements.push(`<p class="equation">${await renderEquation(file, group, assets)}</p>`);
+        break;
+    }
+  }
+
+  return elements;
+};
+
+const buildHtml = async (files: UploadedFile[], { layout }: ExportOptions): Promise<Blob> => {
+  const validFiles = getExportableFiles(files);
+  const page = getPageGeometry(layout);
+  const assets = createAssetLoader(page, layout.cropRefinement);
+  const sections: string[] = [];
+
+  for (const file of validFiles) {
+    const elements = await renderBlocks(getSourceImage(file), getExportBlocks(file.blocks!, layout.runningHeaders), assets);
+    if (layout.includeSourceHeaders) {
+      elements.unshift(`<p class="source">Source: ${escapeXml(getSourceLabel(file))}</p>`);
+    }
+    sections.push(`<section>\n${elements.join('\n')}\n</section>`);
+  }
+
+  const html = `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="UTF-8">
+<title>Extracted Content</title>
+<style>${getStyles(layout, page)}</style>
+</head>
+<body>
+${layout.includeTitle ? '<h1>Extracted Content</h1>\n' : ''}${sections.join('\n')}
+</body>
+</html>
+`;
+  return new Blob([html], { type: 'text/html;charset=utf-8' });
+};
+
+export const htmlExporter: Exporter = {
+  name: 'HTML, self-contained (.html)',
+  extension: 'html',
+  export: buildHtml,
+};
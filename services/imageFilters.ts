@@ -0,0 +1,459 @@
+// Pixel-level image filters for OCR pre-processing and crop refinement. They work on RGBA buffers
+// shaped like ImageData and use no browser APIs, so they can run on any decoded image.
+
+export interface PixelBuffer {
+  data: Uint8ClampedArray; // RGBA, 4 bytes per pixel
+  width: number;
+  height: number;
+}
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+// Corners of a page in the image, in pixels
+export interface Quad {
+  topLeft: Point;
+  topRight: Point;
+  bottomRight: Point;
+  bottomLeft: Point;
+}
+
+// Rectangle in pixels; right and bottom are exclusive
+export interface PixelRect {
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+}
+
+export const createPixelBuffer = (width: number, height: number): PixelBuffer => ({
+  data: new Uint8ClampedArray(width * height * 4),
+  width,
+  height,
+});
+
+/**
+ * Perceived brightness (0-255) of every pixel
+ */
+export const getLuminance = ({ data, width, height }: PixelBuffer): Uint8Array => {
+  const luminance = new Uint8Array(width * height);
+  for (let i = 0; i < luminance.length; i++) {
+    luminance[i] = Math.round(data[i * 4] * 0.299 + data[i * 4 + 1] * 0.587 + data[i * 4 + 2] * 0.114);
+  }
+  return luminance;
+};
+
+/**
+ * Threshold that best separates the dark and light values (Otsu's method); values at or below it are dark
+ */
+export const otsuThreshold = (values: Uint8Array): number => {
+  const histogram = new Array<number>(256).fill(0);
+  values.forEach(v => histogram[v]++);
+
+  const total = values.length;
+  const sum = histogram.reduce((acc, count, value) => acc + count * value, 0);
+  let sumBelow = 0;
+  let countBelow = 0;
+  let best = 0;
+  let threshold = 127;
+
+  for (let t = 0; t < 256; t++) {
+    countBelow += histogram[t];
+    if (countBelow === 0) continue;
+    const countAbove = total - countBelow;
+    if (countAbove === 0) break;
+    sumBelow += t * histogram[t];
+    const meanBelow = sumBelow / countBelow;
+    const meanAbove = (sum - sumBelow) / countAbove;
+    const variance = countBelow * countAbove * (meanBelow - meanAbove) ** 2;
+    if (variance > best) {
+      best = variance;
+      threshold = t;
+    }
+  }
+  return threshold;
+};
+
+export const toGrayscale = (image: PixelBuffer) => {
+  const luminance = getLuminance(image);
+  luminance.forEach((value, i) => {
+    image.data[i * 4] = image.data[i * 4 + 1] = image.data[i * 4 + 2] = value;
+  });
+};
+
+/**
+ * Stretches the brightness range so the darkest and lightest 1% of pixels become black and white
+ */
+export const stretchContrast = (image: PixelBuffer) => {
+  const luminance = getLuminance(image);
+  const sorted = Uint8Array.from(luminance).sort();
+  const low = sorted[Math.floor(sorted.length * 0.01)];
+  const high = sorted[Math.floor(sorted.length * 0.99)];
+  if (high - low < 10) return; // Blank page; stretching would only amplify noise
+
+  const scale = 255 / (high - low);
+  for (let i = 0; i < image.data.length; i += 4) {
+    for (let c = 0; c < 3; c++) {
+      image.data[i + c] = (image.data[i + c] - low) * scale;
+    }
+  }
+};
+
+/**
+ * Black and white conversion against the local mean brightness, so shadows and uneven
+ * lighting in phone photos do not turn whole areas black (Bradley's adaptive threshold)
+ */
+export const adaptiveThreshold = (image: PixelBuffer, sensitivity = 0.15) => {
+  const { width, height } = image;
+  const luminance = getLuminance(image);
+  const radius = Math.max(4, Math.round(Math.min(width, height) / 32));
+
+  // Integral image: sum of all values above and left of each position
+  const integral = new Float64Array((width + 1) * (height + 1));
+  for (let y = 0; y < height; y++) {
+    let rowSum = 0;
+    for (let x = 0; x < width; x++) {
+      rowSum += luminance[y * width + x];
+      integral[(y + 1) * (width + 1) + x + 1] = integral[y * (width + 1) + x + 1] + rowSum;
+    }
+  }
+
+  for (let y = 0; y < height; y++) {
+    const y0 = Math.max(0, y - radius);
+    const y1 = Math.min(height, y + radius + 1);
+    for (let x = 0; x < width; x++) {
+      const x0 = Math.max(0, x - radius);
+      const x1 = Math.min(width, x + radius + 1);
+      const sum = integral[y1 * (width + 1) + x1] - integral[y0 * (width + 1) + x1]
+        - integral[y1 * (width + 1) + x0] + integral[y0 * (width + 1) + x0];
+      const mean = sum / ((x1 - x0) * (y1 - y0));
+      const value = luminance[y * width + x] < mean * (1 - sensitivity) ? 0 : 255;
+      const i = (y * width + x) * 4;
+      image.data[i] = image.data[i + 1] = image.data[i + 2] = value;
+    }
+  }
+};
+
+// Coarse search range and steps for the skew angle, in degrees
+const MAX_SKEW = 15;
+const COARSE_STEP = 0.5;
+const FINE_STEP = 0.1;
+// Dark pixels sampled for the skew search; more only adds time
+const MAX_SKEW_SAMPLES = 60000;
+
+/**
+ * Angle of the text lines in degrees (positive when they slope down to the right).
+ * Projects the dark pixels along candidate angles; at the right angle the lines
+ * pile up into sharp peaks, which maximises the sum of squared row counts.
+ */
+export const estimateSkewAngle = (image: PixelBuffer): number => {
+  const { width, height } = image;
+  const luminance = getLuminance(image);
+  const threshold = otsuThreshold(luminance);
+
+  const xs: number[] = [];
+  const ys: number[] = [];
+  const darkCount = luminance.reduce((count, v) => count + (v <= threshold ? 1 : 0), 0);
+  const stride = Math.max(1, Math.floor(darkCount / MAX_SKEW_SAMPLES));
+  let seen = 0;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (luminance[y * width + x] <= threshold && seen++ % stride === 0) {
+        xs.push(x);
+        ys.push(y);
+      }
+    }
+  }
+  // Too little ink to measure, e.g. a blank page or a photo
+  if (xs.length < 100) return 0;
+
+  const offset = Math.ceil(width * Math.tan((MAX_SKEW + 1) * Math.PI / 180));
+  const bins = new Float64Array(height + 2 * offset);
+  const score = (degrees: number) => {
+    const slope = Math.tan(degrees * Math.PI / 180);
+    bins.fill(0);
+    for (let i = 0; i < xs.length; i++) {
+      bins[Math.round(ys[i] - xs[i] * slope) + offset]++;
+    }
+    return bins.reduce((acc, count) => acc + count * count, 0);
+  };
+
+  const search = (from: number, to: number, step: number) => {
+    let bestAngle = 0;
+    let bestScore = -1;
+    for (let angle = from; angle <= to + 1e-9; angle += step) {
+      const s = score(angle);
+      if (s > bestScore) {
+        bestScore = s;
+        bestAngle = angle;
+      }
+    }
+    return bestAngle;
+  };
+
+  const coarse = search(-MAX_SKEW, MAX_SKEW, COARSE_STEP);
+  return Math.round(search(coarse - COARSE_STEP, coarse + COARSE_STEP, FINE_STEP) * 10) / 10;
+};
+
+const quadArea = ({ topLeft, topRight, bottomRight, bottomLeft }: Quad): number => {
+  const points = [topLeft, topRight, bottomRight, bottomLeft];
+  let area = 0;
+  points.forEach((p, i) => {
+    const q = points[(i + 1) % 4];
+    area += p.x * q.y - q.x * p.y;
+  });
+  return Math.abs(area) / 2;
+};
+
+// A page must cover this share of the photo to be trusted
+const MIN_PAGE_AREA = 0.2;
+// Corners closer than this share of the image size to the image corners mean there is nothing to correct
+const CORNER_TOLERANCE = 0.02;
+
+/**
+ * Finds the four corners of a sheet of paper photographed on a darker background:
+ * the largest bright region, with its corners taken as the extreme points along the diagonals.
+ * Returns null when no clear page is found or it already fills the image.
+ */
+export const detectPageCorners = (image: PixelBuffer): Quad | null => {
+  const { width, height } = image;
+  const luminance = getLuminance(image);
+  const threshold = otsuThreshold(luminance);
+
+  // Largest 4-connected region of bright pixels
+  const labels = new Int32Array(width * height);
+  const queue = new Int32Array(width * height);
+  let bestLabel = 0;
+  let bestSize = 0;
+  let label = 0;
+  for (let start = 0; start < labels.length; start++) {
+    if (labels[start] || luminance[start] <= threshold) continue;
+    label++;
+    let head = 0;
+    let tail = 0;
+    queue[tail++] = start;
+    labels[start] = label;
+    while (head < tail) {
+      const index = queue[head++];
+      const x = index % width;
+      const neighbours = [
+        x > 0 ? index - 1 : -1,
+        x < width - 1 ? index + 1 : -1,
+        index - width,
+        index + width,
+      ];
+      for (const n of neighbours) {
+        if (n >= 0 && n < labels.length && !labels[n] && luminance[n] > threshold) {
+          labels[n] = label;
+          queue[tail++] = n;
+        }
+      }
+    }
+    if (tail > bestSize) {
+      bestSize = tail;
+      bestLabel = label;
+    }
+  }
+  if (bestSize < width * height * MIN_PAGE_AREA) return null;
+
+  let topLeft = { x: 0, y: 0, score: Infinity };
+  let bottomRight = { x: 0, y: 0, score: -Infinity };
+  let topRight = { x: 0, y: 0, score: -Infinity };
+  let bottomLeft = { x: 0, y: 0, score: Infinity };
+  for (let index = 0; index < labels.length; index++) {
+    if (labels[index] !== bestLabel) continue;
+    const x = index % width;
+    const y = Math.floor(index / width);
+    if (x + y < topLeft.score) topLeft = { x, y, score: x + y };
+    if (x + y > bottomRight.score) bottomRight = { x, y, score: x + y };
+    if (x - y > topRight.score) topRight = { x, y, score: x - y };
+    if (x - y < bottomLeft.score) bottomLeft = { x, y, score: x - y };
+  }
+
+  const quad: Quad = {
+    topLeft: { x: topLeft.x, y: topLeft.y },
+    topRight: { x: topRight.x, y: topRight.y },
+    bottomRight: { x: bottomRight.x, y: bottomRight.y },
+    bottomLeft: { x: bottomLeft.x, y: bottomLeft.y },
+  };
+  if (quadArea(quad) < width * height * MIN_PAGE_AREA) return null;
+
+  const tolerance = CORNER_TOLERANCE * Math.max(width, height);
+  const imageCorners = [{ x: 0, y: 0 }, { x: width - 1, y: 0 }, { x: width - 1, y: height - 1 }, { x: 0, y: height - 1 }];
+  const fillsImage = [quad.topLeft, quad.topRight, quad.bottomRight, quad.bottomLeft]
+    .every((p, i) => Math.hypot(p.x - imageCorners[i].x, p.y - imageCorners[i].y) <= tolerance);
+  return fillsImage ? null : quad;
+};
+
+/**
+ * Solves the 8 coefficients of the homography that maps the rectangle
+ * (0,0)-(width,height) onto the quad (Gaussian elimination on the 8x8 system)
+ */
+const solveHomography = (quad: Quad, width: number, height: number): number[] => {
+  const pairs: [Point, Point][] = [
+    [{ x: 0, y: 0 }, quad.topLeft],
+    [{ x: width, y: 0 }, quad.topRight],
+    [{ x: width, y: height }, quad.bottomRight],
+    [{ x: 0, y: height }, quad.bottomLeft],
+  ];
+  const rows: number[][] = [];
+  for (const [{ x, y }, { x: u, y: v }] of pairs) {
+    rows.push([x, y, 1, 0, 0, 0, -u * x, -u * y, u]);
+    rows.push([0, 0, 0, x, y, 1, -v * x, -v * y, v]);
+  }
+
+  for (let col = 0; col < 8; col++) {
+    let pivot = col;
+    for (let r = col + 1; r < 8; r++) {
+      if (Math.abs(rows[r][col]) > Math.abs(rows[pivot][col])) pivot = r;
+    }
+    [rows[col], rows[pivot]] = [rows[pivot], rows[col]];
+    for (let r = 0; r < 8; r++) {
+      if (r === col) continue;
+      const factor = rows[r][col] / rows[col][col];
+      for (let c = col; c < 9; c++) rows[r][c] -= factor * rows[col][c];
+    }
+  }
+  return rows.map((row, i) => row[8] / row[i]);
+};
+
+/**
+ * Cuts the quad out of the image and straightens it into a rectangle as wide and tall as its longest edges
+ */
+export const warpPerspective = (image: PixelBuffer, quad: Quad): PixelBuffer => {
+  const distance = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+  const width = Math.round(Math.max(distance(quad.topLeft, quad.topRight), distance(quad.bottomLeft, quad.bottomRight)));
+  const height = Math.round(Math.max(distance(quad.topLeft, quad.bottomLeft), distance(quad.topRight, quad.bottomRight)));
+  const [a, b, c, d, e, f, g, h] = solveHomography(quad, width, height);
+  const output = createPixelBuffer(width, height);
+  const { data: src, width: srcWidth, height: srcHeight } = image;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const w = g * x + h * y + 1;
+      const u = Math.min(srcWidth - 1, Math.max(0, (a * x + b * y + c) / w));
+      const v = Math.min(srcHeight - 1, Math.max(0, (d * x + e * y + f) / w));
+
+      // Bilinear sampling between the four surrounding source pixels
+      const x0 = Math.floor(u);
+      const y0 = Math.floor(v);
+      const x1 = Math.min(srcWidth - 1, x0 + 1);
+      const y1 = Math.min(srcHeight - 1, y0 + 1);
+      const fx = u - x0;
+      const fy = v - y0;
+      const out = (y * width + x) * 4;
+      for (let ch = 0; ch < 4; ch++) {
+        const top = src[(y0 * srcWidth + x0) * 4 + ch] * (1 - fx) + src[(y0 * srcWidth + x1) * 4 + ch] * fx;
+        const bottom = src[(y1 * srcWidth + x0) * 4 + ch] * (1 - fx) + src[(y1 * srcWidth + x1) * 4 + ch] * fx;
+        output.data[out + ch] = top * (1 - fy) + bottom * fy;
+      }
+    }
+  }
+  return output;
+};
+
+/**
+ * Copies a rectangle out of the image
+ */
+export const cropPixels = (image: PixelBuffer, { left, top, right, bottom }: PixelRect): PixelBuffer => {
+  const output = createPixelBuffer(right - left, bottom - top);
+  for (let y = top; y < bottom; y++) {
+    output.data.set(image.data.subarray((y * image.width + left) * 4, (y * image.width + right) * 4), (y - top) * output.width * 4);
+  }
+  return output;
+};
+
+/**
+ * Scales the image with bilinear sampling
+ */
+export const resizePixels = (image: PixelBuffer, width: number, height: number): PixelBuffer => {
+  const output = createPixelBuffer(width, height);
+  const { data: src, width: srcWidth, height: srcHeight } = image;
+  for (let y = 0; y < height; y++) {
+    const v = Math.min(srcHeight - 1, Math.max(0, ((y + 0.5) * srcHeight) / height - 0.5));
+    const y0 = Math.floor(v);
+    const y1 = Math.min(srcHeight - 1, y0 + 1);
+    const fy = v - y0;
+    for (let x = 0; x < width; x++) {
+      const u = Math.min(srcWidth - 1, Math.max(0, ((x + 0.5) * srcWidth) / width - 0.5));
+      const x0 = Math.floor(u);
+      const x1 = Math.min(srcWidth - 1, x0 + 1);
+      const fx = u - x0;
+      const out = (y * width + x) * 4;
+      for (let ch = 0; ch < 4; ch++) {
+        const top = src[(y0 * srcWidth + x0) * 4 + ch] * (1 - fx) + src[(y0 * srcWidth + x1) * 4 + ch] * fx;
+        const bottom = src[(y1 * srcWidth + x0) * 4 + ch] * (1 - fx) + src[(y1 * srcWidth + x1) * 4 + ch] * fx;
+        output.data[out + ch] = top * (1 - fy) + bottom * fy;
+      }
+    }
+  }
+  return output;
+};
+
+// Brightness difference from the background that counts as content (ink, lines, shading)
+const CONTENT_CONTRAST = 48;
+// Differences up to this are paper texture and compression noise, kept fully transparent by clearBackground
+const BACKGROUND_NOISE = 12;
+// Rows and columns need this many content pixels, so single specks of scan noise do not count
+const MIN_CONTENT_PIXELS = 2;
+
+/**
+ * Background brightness of an image: the median brightness of its border pixels
+ */
+export const estimateBackground = (image: PixelBuffer): number => {
+  const { width, height } = image;
+  const luminance = getLuminance(image);
+  const border: number[] = [];
+  for (let x = 0; x < width; x++) {
+    border.push(luminance[x], luminance[(height - 1) * width + x]);
+  }
+  for (let y = 1; y < height - 1; y++) {
+    border.push(luminance[y * width], luminance[y * width + width - 1]);
+  }
+  border.sort((a, b) => a - b);
+  return border[Math.floor(border.length / 2)];
+};
+
+/**
+ * Smallest rectangle holding the content inside the given area: pixels that clearly differ from
+ * the background, in either direction so light text on a dark background works too. Null when there is none.
+ */
+export const findContentBounds = (image: PixelBuffer, background: number, area?: PixelRect): PixelRect | null => {
+  const { left, top, right, bottom } = area ?? { left: 0, top: 0, right: image.width, bottom: image.height };
+  if (right <= left || bottom <= top) return null;
+  const luminance = getLuminance(image);
+  const rowCounts = new Array<number>(bottom - top).fill(0);
+  const columnCounts = new Array<number>(right - left).fill(0);
+  for (let y = top; y < bottom; y++) {
+    for (let x = left; x < right; x++) {
+      if (Math.abs(luminance[y * image.width + x] - background) > CONTENT_CONTRAST) {
+        rowCounts[y - top]++;
+        columnCounts[x - left]++;
+      }
+    }
+  }
+
+  const first = (counts: number[]) => counts.findIndex(count => count >= MIN_CONTENT_PIXELS);
+  const last = (counts: number[]) => counts.length - 1 - [...counts].reverse().findIndex(count => count >= MIN_CONTENT_PIXELS);
+  if (first(rowCounts) < 0 || first(columnCounts) < 0) return null;
+  return {
+    left: left + first(columnCounts),
+    top: top + first(rowCounts),
+    right: left + last(columnCounts) + 1,
+    bottom: top + last(rowCounts) + 1,
+  };
+};
+
+/**
+ * Makes the background transparent. Opacity grows with the difference from the background,
+ * so anti-aliased edges fade out instead of keeping a light fringe.
+ */
+export const clearBackground = (image: PixelBuffer, background: number) => {
+  const luminance = getLuminance(image);
+  luminance.forEach((value, i) => {
+    const contrast = Math.max(0, Math.abs(value - background) - BACKGROUND_NOISE) / (CONTENT_CONTRAST - BACKGROUND_NOISE);
+    image.data[i * 4 + 3] = Math.min(255, Math.round(contrast * 255));
+  });
+};
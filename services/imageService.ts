@@ -0,0 +1,217 @@
+import { CropBox, CropRefinement } from "../types";
+import { renderSmilesToPng } from "./chemistryService";
+import { PixelBuffer } from "./imageFilters";
+import { getSearchBox, isRefining, refineCrop } from "./cropRefinement";
+
+export interface CroppedImage {
+  data: ArrayBuffer; // PNG bytes
+  width: number; // Pixels
+  height: number;
+  box?: CropBox; // Part of the image shown, when refinement moved the edges of the requested box
+}
+
+// Pixels of part of an image, for analysis
+export interface ImageRegion {
+  pixels: PixelBuffer;
+  left: number; // Position of the region in the image, in pixels
+  top: number;
+  imageWidth: number;
+  imageHeight: number;
+}
+
+/**
+ * Image operations the exporters need from the platform: canvas in the browser, an image library in Node.
+ * The rest of the OCR and export pipeline only uses Blob, File and ArrayBuffer, which both provide.
+ */
+export interface ImageBackend {
+  crop: (file: Blob, box: CropBox) => Promise<CroppedImage>;
+  readRegion: (file: Blob, box: CropBox) => Promise<ImageRegion>; // Upright, like crop
+  encodePng: (image: PixelBuffer) => Promise<ArrayBuffer>;
+  renderSmiles?: (smiles: string, width: number, height: number) => Promise<ArrayBuffer>; // PNG of a structure
+}
+
+// Helper to crop an image based on normalized 0-1000 coordinates
+const cropWithCanvas = async (file: Blob, { ymin, xmin, ymax, xmax }: CropBox): Promise<CroppedImage> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    const url = URL.createObjectURL(file);
+    
+    img.onload = () => {
+      try {
+        // Calculate dimensions
+        // Coordinates are 0-1000
+        const realX = (xmin / 1000) * img.width;
+        const realY = (ymin / 1000) * img.height;
+        const realW = ((xmax - xmin) / 1000) * img.width;
+        const realH = ((ymax - ymin) / 1000) * img.height;
+
+        // Ensure positive width/height
+        if (realW <= 0 || realH <= 0) {
+            reject(new Error("Invalid crop dimensions"));
+            return;
+        }
+
+        const canvas = document.createElement('canvas');
+        canvas.width = realW;
+        canvas.height = realH;
+        const ctx = canvas.getContext('2d');
+        
+        if (!ctx) {
+            reject(new Error("Could not get canvas context"));
+            return;
+        }
+
+        ctx.drawImage(img, realX, realY, realW, realH, 0, 0, realW, realH);
+        
+        canvas.toBlob((blob) => {
+           if (!blob) {
+               reject(new Error("Crop failed"));
+               return;
+           }
+           const reader = new FileReader();
+           reader.onloadend = () => {
+               URL.revokeObjectURL(url);
+               resolve({ data: reader.result as ArrayBuffer, width: canvas.width, height: canvas.height });
+           };
+           reader.readAsArrayBuffer(blob);
+        }, 'image/png');
+      } catch (e) {
+        URL.revokeObjectURL(url);
+        reject(e);
+      }
+    };
+
+    img.onerror = () => {
+        URL.revokeObjectURL(url);
+        reject(new Error("Failed to load image for cropping"));
+    };
+
+    img.src = url;
+  });
+};
+
+const readRegionWithCanvas = async (file: Blob, { ymin, xmin, ymax, xmax }: CropBox): Promise<ImageRegion> => {
+  // Decoding with "from-image" applies the EXIF orientation, as drawing an <img> does
+  const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+  try {
+    const left = Math.round((xmin / 1000) * bitmap.width);
+    const top = Math.round((ymin / 1000) * bitmap.height);
+    const width = Math.min(bitmap.width, Math.round((xmax / 1000) * bitmap.width)) - left;
+    const height = Math.min(bitmap.height, Math.round((ymax / 1000) * bitmap.height)) - top;
+    if (width <= 0 || height <= 0) {
+      throw new Error("Invalid crop dimensions");
+    }
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+      throw new Error("Could not get canvas context");
+    }
+    ctx.drawImage(bitmap, left, top, width, height, 0, 0, width, height);
+    return { pixels: ctx.getImageData(0, 0, width, height), left, top, imageWidth: bitmap.width, imageHeight: bitmap.height };
+  } finally {
+    bitmap.close();
+  }
+};
+
+const encodePngWithCanvas = (image: PixelBuffer): Promise<ArrayBuffer> =>
+  new Promise((resolve, reject) => {
+    const canvas = document.createElement('canvas');
+    canvas.width = image.width;
+    canvas.height = image.height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+      reject(new Error("Could not get canvas context"));
+      return;
+    }
+    ctx.putImageData(new ImageData(image.data, image.width, image.height), 0, 0);
+    canvas.toBlob(blob => {
+      if (!blob) {
+        reject(new Error("Crop failed"));
+        return;
+      }
+      blob.arrayBuffer().then(resolve, reject);
+    }, 'image/png');
+  });
+
+export const browserImageBackend: ImageBackend = {
+  crop: cropWithCanvas,
+  readRegion: readRegionWithCanvas,
+  encodePng: encodePngWithCanvas,
+  renderSmiles: renderSmilesToPng,
+};
+
+let imageBackend: ImageBackend = browserImageBackend;
+
+/**
+ * Replaces the canvas backend, e.g. in the command-line converter where there is no DOM
+ */
+export const setImageBackend = (backend: ImageBackend) => {
+  imageBackend = backend;
+};
+
+// Reads the box with some surroundings and fits it to its content
+const refineRegion = async (file: Blob, box: CropBox, refinement: CropRefinement): Promise<CroppedImage> => {
+  const { ymin, xmin, ymax, xmax } = box;
+  const region = await imageBackend.readRegion(file, getSearchBox(box, refinement));
+  const { pixels, imageWidth, imageHeight } = region;
+  const toColumn = (x: number) => Math.min(pixels.width, Math.max(0, Math.round((x / 1000) * imageWidth) - region.left));
+  const toRow = (y: number) => Math.min(pixels.height, Math.max(0, Math.round((y / 1000) * imageHeight) - region.top));
+  const inner = { left: toColumn(xmin), top: toRow(ymin), right: toColumn(xmax), bottom: toRow(ymax) };
+  if (inner.right <= inner.left || inner.bottom <= inner.top) {
+    throw new Error("Invalid crop dimensions");
+  }
+
+  const { image, rect } = refineCrop(pixels, inner, refinement);
+  return {
+    data: await imageBackend.encodePng(image),
+    width: image.width,
+    height: image.height,
+    box: {
+      ymin: ((region.top + rect.top) / imageHeight) * 1000,
+      xmin: ((region.left + rect.left) / imageWidth) * 1000,
+      ymax: ((region.top + rect.bottom) / imageHeight) * 1000,
+      xmax: ((region.left + rect.right) / imageWidth) * 1000,
+    },
+  };
+};
+
+/**
+ * Cuts a box (0-1000 coordinates) out of an image as a PNG. With a refinement the crop is fitted to its content
+ * (see cropRefinement.ts) and the result says which part of the image it ended up showing.
+ */
+export const cropImage = async (
+  file: Blob, ymin: number, xmin: number, ymax: number, xmax: number, refinement?: CropRefinement
+): Promise<CroppedImage> => {
+  const box = { ymin, xmin, ymax, xmax };
+  if (!isRefining(refinement)) {
+    return imageBackend.crop(file, box);
+  }
+
+  try {
+    return await refineRegion(file, box, refinement);
+  } catch (error) {
+    // The box as given is still a usable crop
+    console.warn("Crop refinement failed; using the box as given", error);
+    return imageBackend.crop(file, box);
+  }
+};
+
+/**
+ * Draws a structure from its SMILES string; rejects when it cannot be parsed or the backend cannot draw
+ */
+export const renderSmiles = (smiles: string, width: number, height: number): Promise<ArrayBuffer> =>
+  imageBackend.renderSmiles
+    ? imageBackend.renderSmiles(smiles, width, height)
+    : Promise.reject(new Error("Structure drawing is not available here"));
+
+/**
+ * Returns the image as it is when the OCR backend accepts its type, otherwise converted to PNG (e.g. a GIF or BMP for Gemini)
+ */
+export const toAcceptedImage = async (file: File, acceptedTypes: ReadonlySet<string>): Promise<File> => {
+  if (!file.type || acceptedTypes.has(file.type)) return file;
+  const { data } = await cropImage(file, 0, 0, 1000, 1000);
+  return new File([data], file.name.replace(/\.[^.]+$/, '') + '.png', { type: 'image/png' });
+};
@@ -0,0 +1,167 @@
+import { isRetryableError, getErrorStatus } from "./errors";
+
+export interface JobQueueOptions<T> {
+  concurrency: number;
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  // Called before every attempt; returning false pauses the queue (e.g. over budget) until it is resumed
+  canStart?: (job: T) => boolean;
+}
+
+export type JobEvent<T> =
+  | { type: 'start'; job: T; attempt: number }
+  | { type: 'retry'; job: T; attempt: number; delayMs: number; error: unknown }
+  | { type: 'success'; job: T }
+  | { type: 'failure'; job: T; error: unknown }
+  | { type: 'cancelled'; job: T }
+  | { type: 'held'; job: T }; // canStart refused the job and the queue paused
+
+export interface JobQueueController {
+  pause: () => void;
+  resume: () => void;
+  cancel: () => void;
+  isPaused: () => boolean;
+  done: Promise<void>;
+}
+
+/**
+ * Exponential backoff with jitter, honouring a server-provided Retry-After when there is one
+ */
+const getRetryDelay = <T>(error: unknown, attempt: number, options: JobQueueOptions<T>): number => {
+  const retryAfter = (error as { retryAfterMs?: unknown } | null)?.retryAfterMs;
+  if (typeof retryAfter === 'number') {
+    return Math.min(options.maxDelayMs, retryAfter);
+  }
+  const exponential = options.baseDelayMs * 2 ** (attempt - 1);
+  const jitter = Math.random() * options.baseDelayMs;
+  return Math.min(options.maxDelayMs, exponential + jitter);
+};
+
+/**
+ * Runs jobs with a concurrency limit, retrying transient failures (429/5xx/network) with backoff.
+ * A 429 also pauses the other workers until the backoff is over, so the whole batch slows down.
+ * The worker receives an AbortSignal that fires when the run is cancelled.
+ */
+export const createJobQueue = <T>(
+  jobs: T[],
+  worker: (job: T, signal: AbortSignal) => Promise<void>,
+  options: JobQueueOptions<T>,
+  onEvent: (event: JobEvent<T>) => void
+): JobQueueController => {
+  const pending = [...jobs];
+  const abortController = new AbortController();
+  let paused = false;
+  let cancelled = false;
+  let cooldownUntil = 0;
+  let resumeWaiters: (() => void)[] = [];
+
+  const sleep = (ms: number) => new Promise<void>(resolve => {
+    if (ms <= 0 || cancelled) {
+      resolve();
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+    // The listener goes when the timer fires, so long runs do not pile up one per wait on the shared signal
+    const timer = setTimeout(() => {
+      abortController.signal.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    abortController.signal.addEventListener('abort', onAbort, { once: true });
+  });
+
+  const waitUntilRunnable = async () => {
+    while (!cancelled) {
+      if (paused) {
+        await new Promise<void>(resolve => resumeWaiters.push(resolve));
+      } else if (Date.now() < cooldownUntil) {
+        await sleep(cooldownUntil - Date.now());
+      } else {
+        return;
+      }
+    }
+  };
+
+  // The check runs again after every resume, so the caller can change its mind (e.g. a raised budget)
+  const waitUntilAllowed = async (job: T) => {
+    await waitUntilRunnable();
+    while (!cancelled && options.canStart && !options.canStart(job)) {
+      paused = true;
+      onEvent({ type: 'held', job });
+      await waitUntilRunnable();
+    }
+  };
+
+  const runJob = async (job: T) => {
+    for (let attempt = 1; ; attempt++) {
+      await waitUntilAllowed(job);
+      if (cancelled) {
+        onEvent({ type: 'cancelled', job });
+        return;
+      }
+
+      onEvent({ type: 'start', job, attempt });
+      try {
+        await worker(job, abortController.signal);
+        onEvent({ type: 'success', job });
+        return;
+      } catch (error) {
+        if (cancelled) {
+          onEvent({ type: 'cancelled', job });
+          return;
+        }
+        if (attempt > options.maxRetries || !isRetryableError(error)) {
+          onEvent({ type: 'failure', job, error });
+          return;
+        }
+
+        const delayMs = getRetryDelay(error, attempt, options);
+        if (getErrorStatus(error) === 429) {
+          cooldownUntil = Math.max(cooldownUntil, Date.now() + delayMs);
+        }
+        onEvent({ type: 'retry', job, attempt, delayMs, error });
+        await sleep(delayMs);
+      }
+    }
+  };
+
+  const runWorker = async () => {
+    while (true) {
+      await waitUntilRunnable();
+      const job = pending.shift();
+      if (cancelled || job === undefined) return;
+      await runJob(job);
+    }
+  };
+
+  const wakeWaiters = () => {
+    const waiters = resumeWaiters;
+    resumeWaiters = [];
+    waiters.forEach(resolve => resolve());
+  };
+
+  const workerCount = Math.max(1, Math.min(options.concurrency, jobs.length));
+  const done = Promise.all(Array.from({ length: workerCount }, runWorker)).then(() => undefined);
+
+  return {
+    pause: () => {
+      paused = true;
+    },
+    resume: () => {
+      paused = false;
+      wakeWaiters();
+    },
+    cancel: () => {
+      if (cancelled) return;
+      cancelled = true;
+      pending.splice(0).forEach(job => onEvent({ type: 'cancelled', job }));
+      abortController.abort();
+      wakeWaiters();
+    },
+    isPaused: () => paused,
+    done,
+  };
+};
@@ -0,0 +1,307 @@
+import {
+  MathComponent,
+  MathRun,
+  MathFraction,
+  MathSuperScript,
+  MathSubScript,
+  MathSubSuperScript,
+  MathRadical,
+  MathSum,
+  MathIntegral,
+  MathFunction,
+  MathRoundBrackets,
+  MathSquareBrackets,
+  MathCurlyBrackets,
+  MathAngledBrackets,
+} from "docx";
+
+// Converts the LaTeX subset produced by the OCR prompt into docx Math components (OMML).
+// Anything outside the subset (matrices, accents, aligned environments, ...) throws,
+// so callers can fall back to embedding the cropped formula image instead.
+
+const SYMBOLS: Record<string, string> = {
+  alpha: 'α', beta: 'β', gamma: 'γ', delta: 'δ', epsilon: 'ε', varepsilon: 'ε', zeta: 'ζ', eta: 'η',
+  theta: 'θ', vartheta: 'ϑ', iota: 'ι', kappa: 'κ', lambda: 'λ', mu: 'μ', nu: 'ν', xi: 'ξ', pi: 'π',
+  rho: 'ρ', sigma: 'σ', tau: 'τ', upsilon: 'υ', phi: 'φ', varphi: 'φ', chi: 'χ', psi: 'ψ', omega: 'ω',
+  Gamma: 'Γ', Delta: 'Δ', Theta: 'Θ', Lambda: 'Λ', Xi: 'Ξ', Pi: 'Π', Sigma: 'Σ', Phi: 'Φ', Psi: 'Ψ', Omega: 'Ω',
+  cdot: '·', times: '×', div: '÷', pm: '±', mp: '∓', le: '≤', leq: '≤', ge: '≥', geq: '≥', neq: '≠', ne: '≠',
+  approx: '≈', equiv: '≡', sim: '∼', propto: '∝', infty: '∞', partial: '∂', nabla: '∇', degree: '°',
+  circ: '∘', to: '→', rightarrow: '→', leftarrow: '←', Rightarrow: '⇒', Leftarrow: '⇐', leftrightarrow: '↔',
+  Leftrightarrow: '⇔', rightleftharpoons: '⇌', in: '∈', notin: '∉', subset: '⊂', subseteq: '⊆', cup: '∪',
+  cap: '∩', emptyset: '∅', forall: '∀', exists: '∃', angle: '∠', perp: '⊥', parallel: '∥', triangle: '△',
+  ldots: '…', cdots: '⋯', dots: '…', prime: '′', prod: '∏', lbrace: '{', rbrace: '}', '{': '{', '}': '}',
+  '%': '%', '$': '$', '#': '#', '&': '&', '_': '_',
+};
+
+const FUNCTIONS = new Set(['sin', 'cos', 'tan', 'cot', 'sec', 'csc', 'arcsin', 'arccos', 'arctan',
+  'sinh', 'cosh', 'tanh', 'log', 'ln', 'lg', 'exp', 'lim', 'max', 'min', 'det', 'gcd']);
+
+const SPACES = new Set([',', ';', ':', '!', ' ', 'quad', 'qquad']);
+
+const TEXT_COMMANDS = new Set(['text', 'mathrm', 'textrm', 'operatorname', 'mbox']);
+
+type Token = { kind: 'command' | 'char' | 'space'; value: string };
+
+const tokenize = (latex: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < latex.length) {
+    const ch = latex[i];
+    if (ch === '\\') {
+      const rest = latex.slice(i + 1);
+      const word = rest.match(/^[a-zA-Z]+/);
+      if (word) {
+        tokens.push({ kind: 'command', value: word[0] });
+        i += 1 + word[0].length;
+      } else if (rest.length > 0) {
+        tokens.push({ kind: 'command', value: rest[0] });
+        i += 2;
+      } else {
+        throw new Error("Trailing backslash in LaTeX");
+      }
+    } else if (/\s/.test(ch)) {
+      // Spaces only matter inside \text{}; the parser skips them elsewhere
+      tokens.push({ kind: 'space', value: ' ' });
+      i++;
+    } else {
+      tokens.push({ kind: 'char', value: ch });
+      i++;
+    }
+  }
+  return tokens;
+};
+
+const BRACKETS: Record<string, (children: MathComponent[]) => MathComponent> = {
+  '(': children => new MathRoundBrackets({ children }),
+  '[': children => new MathSquareBrackets({ children }),
+  '{': children => new MathCurlyBrackets({ children }),
+  'langle': children => new MathAngledBrackets({ children }),
+};
+
+class LatexParser {
+  private pos = 0;
+
+  constructor(private readonly tokens: Token[]) {}
+
+  parse(): MathComponent[] {
+    const result = this.parseExpression();
+    if (this.peek()) {
+      throw new Error(`Unexpected "${this.tokens[this.pos].value}" in LaTeX`);
+    }
+    return result;
+  }
+
+  private skipSpaces() {
+    while (this.tokens[this.pos]?.kind === 'space') this.pos++;
+  }
+
+  private peek(): Token | undefined {
+    this.skipSpaces();
+    return this.tokens[this.pos];
+  }
+
+  private next(): Token {
+    this.skipSpaces();
+    return this.nextRaw();
+  }
+
+  private nextRaw(): Token {
+    const token = this.tokens[this.pos++];
+    if (!token) throw new Error("Unexpected end of LaTeX");
+    return token;
+  }
+
+  private isChar(token: Token | undefined, value: string): boolean {
+    return token?.kind === 'char' && token.value === value;
+  }
+
+  private isCommand(token: Token | undefined, value: string): boolean {
+    return token?.kind === 'command' && token.value === value;
+  }
+
+  // Reads until "}" or "\right" (not consumed) or the end of input
+  private parseExpression(): MathComponent[] {
+    const items: MathComponent[] = [];
+    let pendingText = '';
+    const flush = () => {
+      if (pendingText) {
+        items.push(new MathRun(pendingText));
+        pendingText = '';
+      }
+    };
+
+    while (this.peek()) {
+      const token = this.peek()!;
+      if (this.isChar(token, '}') || this.isCommand(token, 'right')) break;
+
+      // Large operators take the rest of the expression as their body
+      if (this.isCommand(token, 'sum') || this.isCommand(token, 'int')) {
+        this.next();
+        const { subScript, superScript } = this.parseScripts();
+        flush();
+        const children = this.parseExpression();
+        items.push(token.value === 'sum'
+          ? new MathSum({ children, subScript, superScript })
+          : new MathIntegral({ children, subScript, superScript }));
+        break;
+      }
+
+      const atom = this.parseAtom();
+      const { subScript, superScript } = this.parseScripts();
+
+      if (!subScript && !superScript && typeof atom === 'string') {
+        pendingText += atom;
+        continue;
+      }
+
+      flush();
+      const base = typeof atom === 'string' ? [new MathRun(atom)] : atom;
+      if (subScript && superScript) {
+        items.push(new MathSubSuperScript({ children: base, subScript, superScript }));
+      } else if (subScript) {
+        items.push(new MathSubScript({ children: base, subScript }));
+      } else if (superScript) {
+        items.push(new MathSuperScript({ children: base, superScript }));
+      } else {
+        items.push(...base);
+      }
+    }
+
+    flush();
+    return items;
+  }
+
+  private parseScripts(): { subScript?: MathComponent[]; superScript?: MathComponent[] } {
+    let subScript: MathComponent[] | undefined;
+    let superScript: MathComponent[] | undefined;
+    while (this.isChar(this.peek(), '_') || this.isChar(this.peek(), '^')) {
+      const marker = this.next().value;
+      const atom = this.parseAtom();
+      const components = typeof atom === 'string' ? [new MathRun(atom)] : atom;
+      if (marker === '_') subScript = components;
+      else superScript = components;
+    }
+    return { subScript, superScript };
+  }
+
+  private parseGroup(): MathComponent[] {
+    if (!this.isChar(this.peek(), '{')) {
+      const atom = this.parseAtom();
+      return typeof atom === 'string' ? [new MathRun(atom)] : atom;
+    }
+    this.next();
+    const children = this.parseExpression();
+    if (!this.isChar(this.next(), '}')) throw new Error("Missing } in LaTeX");
+    return children;
+  }
+
+  private readRawGroup(): string {
+    if (!this.isChar(this.next(), '{')) throw new Error("Expected { in LaTeX");
+    let depth = 1;
+    let text = '';
+    while (depth > 0) {
+      const token = this.nextRaw();
+      if (this.isChar(token, '{')) depth++;
+      if (this.isChar(token, '}')) depth--;
+      if (depth > 0) text += token.kind === 'command' ? (SYMBOLS[token.value] ?? ' ') : token.value;
+    }
+    return text;
+  }
+
+  private readDelimiter(): string {
+    const token = this.next();
+    return token.value;
+  }
+
+  // Returns plain text (to be merged into a run) or structured components
+  private parseAtom(): string | MathComponent[] {
+    const token = this.next();
+
+    if (token.kind === 'char') {
+      if (token.value === '{') {
+        const children = this.parseExpression();
+        if (!this.isChar(this.next(), '}')) throw new Error("Missing } in LaTeX");
+        return children;
+      }
+      if (token.value === '^' || token.value === '_' || token.value === '&') {
+        throw new Error(`Unsupported "${token.value}" in LaTeX`);
+      }
+      return token.value;
+    }
+
+    const name = token.value;
+    if (SYMBOLS[name]) return SYMBOLS[name];
+    if (SPACES.has(name)) return name === '!' ? '' : ' ';
+
+    if (name === 'frac' || name === 'dfrac' || name === 'tfrac') {
+      const numerator = this.parseGroup();
+      const denominator = this.parseGroup();
+      return [new MathFraction({ numerator, denominator })];
+    }
+
+    if (name === 'sqrt') {
+      let degree: MathComponent[] | undefined;
+      if (this.isChar(this.peek(), '[')) {
+        this.next();
+        degree = [];
+        while (!this.isChar(this.peek(), ']')) {
+          const atom = this.parseAtom();
+          degree.push(...(typeof atom === 'string' ? [new MathRun(atom)] : atom));
+        }
+        this.next();
+      }
+      return [new MathRadical({ children: this.parseGroup(), degree })];
+    }
+
+    if (name === 'left') {
+      const open = this.readDelimiter();
+      const children = this.parseExpression();
+      if (!this.isCommand(this.next(), 'right')) throw new Error("Missing \\right in LaTeX");
+      const close = this.readDelimiter();
+      const build = BRACKETS[open];
+      if (build) return [build(children)];
+      // Delimiters without a dedicated bracket element (e.g. |x|) are written as plain characters
+      const toText = (delimiter: string) => delimiter === '.' ? '' : (SYMBOLS[delimiter] ?? delimiter);
+      return [new MathRun(toText(open)), ...children, new MathRun(toText(close))];
+    }
+
+    if (FUNCTIONS.has(name)) {
+      const fnName = [new MathRun({ text: name, style: 'plain' })];
+      // Functions with limits (lim_{x \to 0}) keep the subscript on the name
+      if (this.isChar(this.peek(), '_') || this.isChar(this.peek(), '^')) {
+        const { subScript, superScript } = this.parseScripts();
+        if (subScript && superScript) return [new MathSubSuperScript({ children: fnName, subScript, superScript })];
+        if (subScript) return [new MathSubScript({ children: fnName, subScript })];
+        return [new MathSuperScript({ children: fnName, superScript: superScript! })];
+      }
+      if (!this.peek() || this.isChar(this.peek(), '}')) return fnName;
+      return [new MathFunction({ name: fnName, children: this.parseGroup() })];
+    }
+
+    if (TEXT_COMMANDS.has(name)) {
+      return [new MathRun({ text: this.readRawGroup(), normalText: true })];
+    }
+
+    if (name === 'mathbf' || name === 'boldsymbol') {
+      return [new MathRun({ text: this.readRawGroup(), style: 'bold' })];
+    }
+
+    throw new Error(`Unsupported LaTeX command \\${name}`);
+  }
+}
+
+/**
+ * Converts a LaTeX formula (without $ delimiters) into docx Math components.
+ * Throws when the formula uses anything outside the supported subset.
+ */
+export const latexToMath = (latex: string): MathComponent[] => {
+  const source = latex.trim().replace(/^\$+|\$+$/g, '').trim();
+  if (!source) {
+    throw new Error("Empty LaTeX formula");
+  }
+  const components = new LatexParser(tokenize(source)).parse();
+  if (components.length === 0) {
+    throw new Error("LaTeX formula produced no output");
+  }
+  return components;
+};
@@ -0,0 +1,96 @@
+import { ExtractionOptions, LocalProviderConfig, OcrResult, PromptProfile } from "../types";
+import type { OcrProvider } from "./ocrProvider";
+import { buildSystemInstruction } from "./prompts";
+import { OCR_RESPONSE_SCHEMA, parseOcrResponse } from "./blockSchema";
+import { fileToBase64 } from "./fileUtils";
+import { OcrHttpError, fetchOrNetworkError, parseRetryAfter } from "./errors";
+
+type ChatContent = string | { type: string; text?: string }[] | null;
+
+interface ChatCompletionResponse {
+  model?: string;
+  choices?: { message?: { content?: ChatContent } }[];
+  usage?: { prompt_tokens?: number; completion_tokens?: number };
+}
+
+const contentToText = (content: ChatContent | undefined): string => {
+  if (!content) return '';
+  if (typeof content === 'string') return content;
+  return content.map(part => part.text ?? '').join('');
+};
+
+/**
+ * Creates a provider for an OpenAI-compatible chat completions endpoint
+ * (self-hosted vision models via Ollama, vLLM, LM Studio, etc.), so images never leave the local network.
+ */
+export const createLocalProvider = (config: LocalProviderConfig): OcrProvider => {
+  const extract = async (file: File, options: ExtractionOptions, profile: PromptProfile, signal?: AbortSignal): Promise<OcrResult> => {
+    if (!config.endpoint) {
+      throw new Error("Local OCR endpoint is not configured.");
+    }
+
+    const base64Data = await fileToBase64(file);
+    const mimeType = file.type || 'image/png';
+
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (config.apiKey) {
+      headers['Authorization'] = `Bearer ${config.apiKey}`;
+    }
+
+    const model = profile.model || config.model;
+    const startedAt = performance.now();
+    const response = await fetchOrNetworkError(`${config.endpoint.replace(/\/+$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers,
+      signal,
+      body: JSON.stringify({
+        model,
+        temperature: profile.temperature,
+        response_format: {
+          type: 'json_schema',
+          json_schema: { name: 'ocr_blocks', schema: OCR_RESPONSE_SCHEMA }
+        },
+        messages: [
+          { role: 'system', content: buildSystemInstruction(options, profile) },
+          {
+            role: 'user',
+            content: [
+              { type: 'image_url', image_url: { url: `data:${mimeType};base64,${base64Data}` } },
+              { type: 'text', text: profile.userPrompt }
+            ]
+          }
+        ]
+      })
+    });
+
+    if (!response.ok) {
+      throw new OcrHttpError(
+        `Local OCR endpoint returned ${response.status} ${response.statusText}`,
+        response.status,
+        parseRetryAfter(response.headers.get('Retry-After'))
+      );
+    }
+
+    const data = await response.json() as ChatCompletionResponse;
+    const text = contentToText(data.choices?.[0]?.message?.content);
+
+    if (!text) {
+      throw new Error("No text generated from the model.");
+    }
+
+    return {
+      ...parseOcrResponse(text),
+      usage: data.usage && {
+        model: data.model ?? model,
+        inputTokens: data.usage.prompt_tokens ?? 0,
+        outputTokens: data.usage.completion_tokens ?? 0,
+        latencyMs: Math.round(performance.now() - startedAt),
+      },
+    };
+  };
+
+  return {
+    name: 'Local',
+    extract,
+  };
+};
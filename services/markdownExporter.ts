@@ -0,0 +1,140 @@
+import JSZip from "jszip";
+import { ContentBlock, CropBlock, CropBox, CropSegment, EquationBlock, EquationSegment, ExportOptions, InlineSegment, TableBlock, UploadedFile } from "../types";
+import type { Exporter } from "./exporter";
+import { expandTableGrid, formatInlineMarkup } from "./contentBlocks";
+import { getTextFormula, parseChemicalFormula } from "./chemistryService";
+import { getExportableFiles, getSourceImage, getSourceLabel } from "./fileUtils";
+import { getExportBlocks } from "./regionLayout";
+import { AssetLoader, ImageAsset, MISSING_IMAGE_TEXT, createAssetLoader, groupBlocks, listMarkers } from "./exportAssets";
+import { getPageGeometry } from "./pageLayout";
+
+// Markdown export: a zip with SnapScript_Extracted.md and the crops in images/, linked relatively.
+// Chemical formulas use <sub>/<sup> and equations with LaTeX are written as $...$ math.
+
+const MARKDOWN_NAME = "SnapScript_Extracted.md";
+
+/**
+ * Stores the images of one export in images/ and returns Markdown links to them
+ */
+const createImageFolder = (zip: JSZip, assets: AssetLoader) => {
+  let count = 0;
+  const add = (asset: ImageAsset | null): string => {
+    if (!asset) return `**${MISSING_IMAGE_TEXT}**`;
+    count++;
+    const path = `images/image-${String(count).padStart(3, '0')}.png`;
+    zip.file(path, asset.data);
+    return `![${(asset.altText ?? '').replace(/[[\]]/g, '')}](${path})`;
+  };
+  return {
+    crop: async (file: File, box: CropBox) => add(await assets.loadCrop(file, box)),
+    chemistry: async (file: File, crop: CropSegment | CropBlock) => add(await assets.loadChemistry(file, crop)),
+  };
+};
+
+type ImageFolder = ReturnType<typeof createImageFolder>;
+
+const formulaToMarkdown = (formula: string): string =>
+  parseChemicalFormula(formula)
+    .map(part => part.script === 'subscript' ? `<sub>${part.text}</sub>` : part.script === 'superscript' ? `<sup>${part.text}</sup>` : part.text)
+    .join('');
+
+const renderCrop = async (file: File, crop: CropSegment | CropBlock, images: ImageFolder): Promise<string> => {
+  const formula = getTextFormula(crop.chemistry);
+  return formula ? formulaToMarkdown(formula) : images.chemistry(file, crop);
+};
+
+const renderEquation = async (file: File, equation: EquationSegment | EquationBlock, display: boolean, images: ImageFolder): Promise<string> => {
+  if (equation.latex) {
+    return display ? `$$\n${equation.latex}\n$$` : `$${equation.latex}$`;
+  }
+  return images.crop(file, equation.box);
+};
+
+const renderSegments = async (file: File, segments: InlineSegment[], images: ImageFolder): Promise<string> => {
+  const parts: string[] = [];
+  for (const segment of segments) {
+    if (segment.type === 'text') {
+      // Markdown has no way to flag a reading as uncertain
+      parts.push(formatInlineMarkup({ ...segment, uncertain: false }));
+    } else if (segment.type === 'equation') {
+      parts.push(await renderEquation(file, segment, false, images));
+    } else {
+      parts.push(await renderCrop(file, segment, images));
+    }
+  }
+  return parts.join('');
+};
+
+// GitHub-flavoured pipe table; merged positions are left empty since Markdown has no spans
+const renderTable = (table: TableBlock): string => {
+  const grid = expandTableGrid(table);
+  const toLine = (cells: string[]) => `| ${cells.join(' | ')} |`;
+  const rows = grid.map(row => row.map(slot =>
+    typeof slot === 'string' ? '' : slot.text.replace(/\|/g, '\\|').replace(/\n/g, '<br>')
+  ));
+  // Markdown tables always start with a header; the first row takes that role when none is marked
+  const headerCount = Math.max(1, table.rows.filter(row => row.header).length);
+  const lines = rows.slice(0, headerCount).map(toLine);
+  lines.push(toLine(rows[0].map(() => '---')));
+  lines.push(...rows.slice(headerCount).map(toLine));
+  return lines.join('\n');
+};
+
+const renderBlocks = async (file: File, blocks: ContentBlock[], images: ImageFolder): Promise<string[]> => {
+  const chunks: string[] = [];
+
+  for (const group of groupBlocks(blocks)) {
+    switch (group.type) {
+      case 'heading':
+        chunks.push(`${'#'.repeat(group.level)} ${group.text}`);
+        break;
+      case 'paragraph':
+        chunks.push(await renderSegments(file, group.segments, images));
+        break;
+      case 'list': {
+        const markers = listMarkers(group.items);
+        const lines: string[] = [];
+        for (const [index, item] of group.items.entries()) {
+          // Four spaces per level nest under both "-" and "1." items
+          lines.push(`${'    '.repeat(item.level)}${markers[index]} ${await renderSegments(file, item.segments, images)}`);
+        }
+        chunks.push(lines.join('\n'));
+        break;
+      }
+      case 'table':
+        chunks.push(renderTable(group));
+        break;
+      case 'crop':
+        chunks.push(await renderCrop(file, group, images));
+        break;
+      case 'equation':
+        chunks.push(await renderEquation(file, group, true, images));
+        break;
+    }
+  }
+
+  return chunks;
+};
+
+const buildMarkdownZip = async (files: UploadedFile[], { layout }: ExportOptions): Promise<Blob> => {
+  const validFiles = getExportableFiles(files);
+  const zip = new JSZip();
+  const images = createImageFolder(zip, createAssetLoader(getPageGeometry(layout), layout.cropRefinement));
+  const sections: string[] = [];
+
+  for (const file of validFiles) {
+    const chunks = await renderBlocks(getSourceImage(file), getExportBlocks(file.blocks!, layout.runningHeaders), images);
+    const header = layout.includeSourceHeaders ? [`*Source: ${getSourceLabel(file)}*`] : [];
+    sections.push([...header, ...chunks].join('\n\n'));
+  }
+
+  const title = layout.includeTitle ? '# Extracted Content\n\n' : '';
+  zip.file(MARKDOWN_NAME, `${title}${sections.join('\n\n---\n\n')}\n`);
+  return zip.generateAsync({ type: 'blob' });
+};
+
+export const markdownExporter: Exporter = {
+  name: 'Markdown + images (.zip)',
+  extension: 'zip',
+  export: buildMarkdownZip,
+};
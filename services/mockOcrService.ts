@@ -0,0 +1,32 @@
+import { ExtractionOptions, OcrResult, PromptProfile } from "../types";
+import type { OcrProvider } from "./ocrProvider";
+import { parseOcrResponse } from "./blockSchema";
+
+/**
+ * Name a recorded response is filed under: the image name without its extension,
+ * and without the suffix pre-processing adds ("page1-processed.jpg" replays "page1")
+ */
+export const getRecordingName = (fileName: string): string =>
+  fileName.replace(/\.[^.]+$/, '').replace(/-processed$/, '');
+
+/**
+ * Creates a provider that replays recorded model outputs instead of calling a model, for offline tests.
+ * Each recording is the raw text a model returned for an image, so it goes through the same
+ * parsing and validation as a live response; malformed recordings fail the same way.
+ */
+export const createMockProvider = (recordings: Record<string, string>): OcrProvider => {
+  const extract = async (file: File, _options: ExtractionOptions, _profile: PromptProfile, signal?: AbortSignal): Promise<OcrResult> => {
+    signal?.throwIfAborted();
+    const name = getRecordingName(file.name);
+    const text = recordings[name];
+    if (text === undefined) {
+      throw new Error(`No recorded response for "${name}".`);
+    }
+    return parseOcrResponse(text);
+  };
+
+  return {
+    name: 'Recorded responses',
+    extract,
+  };
+};
@@ -0,0 +1,40 @@
+import { AppSettings, ExtractionOptions, OcrProviderType, OcrResult, PromptProfile } from "../types";
+import { createGeminiProvider } from "./geminiService";
+import { createLocalProvider } from "./localOcrService";
+import { createProxyProvider } from "./proxyOcrService";
+import { loadSessionApiKey } from "./settingsService";
+
+/**
+ * Common interface for OCR backends.
+ * Every provider returns blocks validated against the schema in blockSchema.ts.
+ * The prompt profile supplies the prompts, temperature and, optionally, the model.
+ */
+export interface OcrProvider {
+  name: string;
+  extract: (file: File, options: ExtractionOptions, profile: PromptProfile, signal?: AbortSignal) => Promise<OcrResult>;
+}
+
+// Base URL of the proxy server that holds the Gemini key (e.g. "/api"), set at build time.
+// Builds without it, such as the static GitHub Pages one, ask users for their own key.
+export const OCR_PROXY_URL: string | undefined = import.meta.env.VITE_OCR_PROXY_URL || undefined;
+
+/**
+ * Picks the OCR provider configured in the app settings; throws when Gemini needs a key that was not entered
+ */
+export const createOcrProvider = (settings: AppSettings): OcrProvider => {
+  switch (settings.provider) {
+    case OcrProviderType.LOCAL:
+      return createLocalProvider({ ...settings.local, apiKey: loadSessionApiKey(OcrProviderType.LOCAL) });
+    case OcrProviderType.GEMINI:
+    default: {
+      if (OCR_PROXY_URL) {
+        return createProxyProvider(OCR_PROXY_URL);
+      }
+      const apiKey = loadSessionApiKey(OcrProviderType.GEMINI);
+      if (!apiKey) {
+        throw new Error("Enter your Gemini API key in Settings to process images.");
+      }
+      return createGeminiProvider(apiKey);
+    }
+  }
+};
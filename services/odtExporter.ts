@@ -0,0 +1,247 @@
+import JSZip from "jszip";
+import { ContentBlock, CropBlock, CropBox, CropSegment, EquationBlock, EquationSegment, ExportOptions, InlineSegment, LayoutSettings, SourceSeparation, TableBlock, TextSegment, UploadedFile } from "../types";
+import type { Exporter } from "./exporter";
+import { expandTableGrid } from "./contentBlocks";
+import { getTextFormula, parseChemicalFormula } from "./chemistryService";
+import { getExportableFiles, getSourceImage, getSourceLabel } from "./fileUtils";
+import { getExportBlocks } from "./regionLayout";
+import { AssetLoader, ImageAsset, MISSING_IMAGE_TEXT, createAssetLoader, escapeXml, groupBlocks, renderNestedList } from "./exportAssets";
+import { PageGeometry, getPageGeometry } from "./pageLayout";
+
+// OpenDocument Text export for LibreOffice: content.xml and styles.xml written by hand, crops stored in Pictures/.
+// Equations are placed as their cropped image, with the LaTeX as the image title.
+
+const ODT_MIME_TYPE = "application/vnd.oasis.opendocument.text";
+
+const NAMESPACES = [
+  'xmlns:office="urn:oasis:names:tc:opendocument:xmlns:office:1.0"',
+  'xmlns:style="urn:oasis:names:tc:opendocument:xmlns:style:1.0"',
+  'xmlns:text="urn:oasis:names:tc:opendocument:xmlns:text:1.0"',
+  'xmlns:table="urn:oasis:names:tc:opendocument:xmlns:table:1.0"',
+  'xmlns:draw="urn:oasis:names:tc:opendocument:xmlns:drawing:1.0"',
+  'xmlns:fo="urn:oasis:names:tc:opendocument:xmlns:xsl-fo-compatible:1.0"',
+  'xmlns:svg="urn:oasis:names:tc:opendocument:xmlns:svg-compatible:1.0"',
+  'xmlns:xlink="http://www.w3.org/1999/xlink"',
+  'office:version="1.3"',
+].join(' ');
+
+const HEADING_SIZES = ['16pt', '14pt', '13pt', '12pt', '12pt', '11pt'];
+
+const pt = (value: number) => `${value.toFixed(2)}pt`;
+
+const getStylesXml = (layout: LayoutSettings, page: PageGeometry) => `<?xml version="1.0" encoding="UTF-8"?>
+<office:document-styles ${NAMESPACES}>
+<office:styles>
+<style:default-style style:family="paragraph"><style:text-properties fo:font-family="${escapeXml(layout.fontFamily)}" fo:font-size="${layout.fontSizePt}pt"/></style:default-style>
+<style:style style:name="Standard" style:family="paragraph" style:class="text"><style:paragraph-properties fo:margin-bottom="0.21cm"/></style:style>
+<style:style style:name="Title" style:family="paragraph" style:parent-style-name="Standard" style:class="chapter"><style:paragraph-properties fo:margin-bottom="0.7cm"/><style:text-properties fo:font-size="26pt"/></style:style>
+${HEADING_SIZES.map((size, i) => `<style:style style:name="Heading_20_${i + 1}" style:display-name="Heading ${i + 1}" style:family="paragraph" style:parent-style-name="Standard" style:default-outline-level="${i + 1}" style:class="text"><style:paragraph-properties fo:margin-top="0.42cm" fo:margin-bottom="0.21cm" fo:keep-with-next="always"/><style:text-properties fo:font-size="${size}" fo:font-weight="bold" fo:color="#2f5496"/></style:style>`).join('\n')}
+</office:styles>
+<office:automatic-styles>
+<style:page-layout style:name="PageLayout"><style:page-layout-properties fo:page-width="${pt(page.width)}" fo:page-height="${pt(page.height)}" style:print-orientation="${page.width > page.height ? 'landscape' : 'portrait'}" fo:margin-top="${pt(page.margins.top)}" fo:margin-right="${pt(page.margins.right)}" fo:margin-bottom="${pt(page.margins.bottom)}" fo:margin-left="${pt(page.margins.left)}"/></style:page-layout>
+</office:automatic-styles>
+<office:master-styles>
+<style:master-page style:name="Standard" style:page-layout-name="PageLayout"/>
+</office:master-styles>
+</office:document-styles>
+`;
+
+const listLevelStyles = (ordered: boolean) => Array.from({ length: 10 }, (_, i) => {
+  const position = `<style:list-level-properties text:list-level-position-and-space-mode="label-alignment"><style:list-level-label-alignment text:label-followed-by="listtab" fo:text-indent="-0.635cm" fo:margin-left="${(0.635 * (i + 1)).toFixed(3)}cm"/></style:list-level-properties>`;
+  return ordered
+    ? `<text:list-level-style-number text:level="${i + 1}" style:num-format="1" style:num-suffix=".">${position}</text:list-level-style-number>`
+    : `<text:list-level-style-bullet text:level="${i + 1}" text:bullet-char="${i % 2 === 0 ? '•' : '◦'}">${position}</text:list-level-style-bullet>`;
+}).join('');
+
+const AUTOMATIC_STYLES = `<office:automatic-styles>
+<style:style style:name="Sub" style:family="text"><style:text-properties style:text-position="sub 58%"/></style:style>
+<style:style style:name="Sup" style:family="text"><style:text-properties style:text-position="super 58%"/></style:style>
+<style:style style:name="Missing" style:family="text"><style:text-properties fo:color="#ff0000" fo:font-weight="bold"/></style:style>
+<style:style style:name="Bold" style:family="text"><style:text-properties fo:font-weight="bold"/></style:style>
+<style:style style:name="Italic" style:family="text"><style:text-properties fo:font-style="italic"/></style:style>
+<style:style style:name="Underline" style:family="text"><style:text-properties style:text-underline-style="solid" style:text-underline-width="auto" style:text-underline-color="font-color"/></style:style>
+<style:style style:name="Source" style:family="paragraph" style:parent-style-name="Standard"><style:paragraph-properties fo:margin-top="0.7cm" fo:margin-bottom="0.35cm"/><style:text-properties fo:color="#666666" fo:font-size="85%" fo:font-weight="bold" fo:font-style="italic"/></style:style>
+<style:style style:name="SourceBreak" style:family="paragraph" style:parent-style-name="Source"><style:paragraph-properties fo:break-before="page"/></style:style>
+<style:style style:name="Centered" style:family="paragraph" style:parent-style-name="Standard"><style:paragraph-properties fo:text-align="center"/></style:style>
+<style:style style:name="Cell" style:family="table-cell"><style:table-cell-properties fo:border="0.5pt solid #000000" fo:padding="0.1cm"/></style:style>
+<style:style style:name="HeaderCell" style:family="table-cell"><style:table-cell-properties fo:border="0.5pt solid #000000" fo:padding="0.1cm" fo:background-color="#f1f5f9"/></style:style>
+<style:style style:name="Frame" style:family="graphic"><style:graphic-properties style:vertical-pos="middle" style:vertical-rel="text"/></style:style>
+<text:list-style style:name="Bullets">${listLevelStyles(false)}</text:list-style>
+<text:list-style style:name="Numbers">${listLevelStyles(true)}</text:list-style>
+</office:automatic-styles>`;
+
+// ODF collapses runs of spaces and ignores tabs and newlines in text, so they become explicit elements
+const odfText = (text: string): string =>
+  escapeXml(text)
+    .replace(/ {2,}/g, spaces => ` <text:s text:c="${spaces.length - 1}"/>`)
+    .replace(/\t/g, '<text:tab/>')
+    .replace(/\n/g, '<text:line-break/>');
+
+/**
+ * Stores the images of one export in Pictures/ and returns the frames that show them
+ */
+const createPictureFolder = (zip: JSZip, manifest: string[], assets: AssetLoader) => {
+  let count = 0;
+  const add = (asset: ImageAsset | null): string => {
+    if (!asset) return `<text:span text:style-name="Missing">${MISSING_IMAGE_TEXT}</text:span>`;
+    count++;
+    const path = `Pictures/image-${String(count).padStart(3, '0')}.png`;
+    zip.file(path, asset.data);
+    manifest.push(`<manifest:file-entry manifest:full-path="${path}" manifest:media-type="image/png"/>`);
+    const title = asset.altText ? `<svg:title>${escapeXml(asset.altText)}</svg:title>` : '';
+    return `<draw:frame draw:style-name="Frame" draw:name="Image${count}" text:anchor-type="as-char" svg:width="${asset.width.toFixed(1)}pt" svg:height="${asset.height.toFixed(1)}pt"><draw:image xlink:href="${path}" xlink:type="simple" xlink:show="embed" xlink:actuate="onLoad"/>${title}</draw:frame>`;
+  };
+  return {
+    crop: async (file: File, box: CropBox, altText?: string) => add(await assets.loadCrop(file, box, altText)),
+    chemistry: async (file: File, crop: CropSegment | CropBlock) => add(await assets.loadChemistry(file, crop)),
+  };
+};
+
+type PictureFolder = ReturnType<typeof createPictureFolder>;
+
+const formulaToOdf = (formula: string): string =>
+  parseChemicalFormula(formula)
+    .map(part => part.script === 'normal'
+      ? odfText(part.text)
+      : `<text:span text:style-name="${part.script === 'subscript' ? 'Sub' : 'Sup'}">${odfText(part.text)}</text:span>`)
+    .join('');
+
+const renderCrop = async (file: File, crop: CropSegment | CropBlock, pictures: PictureFolder): Promise<string> => {
+  const formula = getTextFormula(crop.chemistry);
+  return formula ? formulaToOdf(formula) : pictures.chemistry(file, crop);
+};
+
+const renderEquation = async (file: File, equation: EquationSegment | EquationBlock, pictures: PictureFolder): Promise<string> =>
+  pictures.crop(file, equation.box, equation.latex);
+
+// Each mark is its own span style; nested spans combine them
+const renderText = (segment: TextSegment): string => {
+  let text = odfText(segment.text);
+  if (segment.italic) text = `<text:span text:style-name="Italic">${text}</text:span>`;
+  if (segment.bold) text = `<text:span text:style-name="Bold">${text}</text:span>`;
+  if (segment.underline) text = `<text:span text:style-name="Underline">${text}</text:span>`;
+  return text;
+};
+
+const renderSegments = async (file: File, segments: InlineSegment[], pictures: PictureFolder): Promise<string> => {
+  const parts: string[] = [];
+  for (const segment of segments) {
+    if (segment.type === 'text') {
+      parts.push(renderText(segment));
+    } else if (segment.type === 'equation') {
+      parts.push(await renderEquation(file, segment, pictures));
+    } else {
+      parts.push(await renderCrop(file, segment, pictures));
+    }
+  }
+  return parts.join('');
+};
+
+// Positions covered by a merged cell are written as covered-table-cell, as ODF requires
+const renderTable = (table: TableBlock, name: string): string => {
+  const grid = expandTableGrid(table);
+  const rows = grid.map((row, r) => {
+    const header = table.rows[r].header;
+    const cells = row.map(slot => {
+      if (typeof slot === 'string') return '<table:covered-table-cell/>';
+      const spans = `${slot.colSpan > 1 ? ` table:number-columns-spanned="${slot.colSpan}"` : ''}${slot.rowSpan > 1 ? ` table:number-rows-spanned="${slot.rowSpan}"` : ''}`;
+      const text = header ? `<text:span text:style-name="Bold">${odfText(slot.text)}</text:span>` : odfText(slot.text);
+      return `<table:table-cell table:style-name="${header ? 'HeaderCell' : 'Cell'}" office:value-type="string"${spans}><text:p>${text}</text:p></table:table-cell>`;
+    });
+    return { header, xml: `<table:table-row>${cells.join('')}</table:table-row>` };
+  });
+
+  const head = rows.filter(row => row.header).map(row => row.xml).join('');
+  const body = rows.filter(row => !row.header).map(row => row.xml).join('');
+  return `<table:table table:name="${name}"><table:table-column table:number-columns-repeated="${grid[0]?.length ?? 1}"/>${head ? `<table:table-header-rows>${head}</table:table-header-rows>` : ''}${body}</table:table>`;
+};
+
+const renderBlocks = async (file: File, blocks: ContentBlock[], pictures: PictureFolder, nextTableName: () => string): Promise<string[]> => {
+  const elements: string[] = [];
+
+  for (const group of groupBlocks(blocks)) {
+    switch (group.type) {
+      case 'heading':
+        elements.push(`<text:h text:style-name="Heading_20_${group.level}" text:outline-level="${group.level}">${odfText(group.text)}</text:h>`);
+        break;
+      case 'paragraph':
+        elements.push(`<text:p text:style-name="Standard">${await renderSegments(file, group.segments, pictures)}</text:p>`);
+        break;
+      case 'list': {
+        const contents: string[] = [];
+        for (const item of group.items) {
+          contents.push(`<text:p text:style-name="Standard">${await renderSegments(file, item.segments, pictures)}</text:p>`);
+        }
+        elements.push(renderNestedList(group.items, contents, {
+          open: ordered => `<text:list text:style-name="${ordered ? 'Numbers' : 'Bullets'}">`,
+          close: () => '</text:list>',
+          openItem: '<text:list-item>',
+          closeItem: '</text:list-item>',
+        }));
+        break;
+      }
+      case 'table':
+        elements.push(renderTable(group, nextTableName()));
+        break;
+      case 'crop':
+        elements.push(`<text:p text:style-name="Standard">${await renderCrop(file, group, pictures)}</text:p>`);
+        break;
+      case 'equation':
+        elements.push(`<text:p text:style-name="Centered">${await renderEquation(file, group, pictures)}</text:p>`);
+        break;
+    }
+  }
+
+  return elements;
+};
+
+const buildOdt = async (files: UploadedFile[], { layout }: ExportOptions): Promise<Blob> => {
+  const validFiles = getExportableFiles(files);
+  const zip = new JSZip();
+  // The mimetype entry must come first and be stored uncompressed
+  zip.file('mimetype', ODT_MIME_TYPE, { compression: 'STORE' });
+
+  const page = getPageGeometry(layout);
+  const manifest: string[] = [];
+  const pictures = createPictureFolder(zip, manifest, createAssetLoader(page, layout.cropRefinement));
+  let tableCount = 0;
+  const nextTableName = () => `Table${++tableCount}`;
+
+  const body: string[] = layout.includeTitle ? ['<text:p text:style-name="Title">Extracted Content</text:p>'] : [];
+  for (const [index, file] of validFiles.entries()) {
+    // Unless the layout is continuous, each source after the first starts on a new page.
+    // Per-source headers and footers are only written to Word documents.
+    const pageBreak = index > 0 && layout.sourceSeparation !== SourceSeparation.CONTINUOUS;
+    const label = layout.includeSourceHeaders ? `Source: ${odfText(getSourceLabel(file))}` : '';
+    if (label || pageBreak) {
+      body.push(`<text:p text:style-name="${pageBreak ? 'SourceBreak' : 'Source'}">${label}</text:p>`);
+    }
+    body.push(...await renderBlocks(getSourceImage(file), getExportBlocks(file.blocks!, layout.runningHeaders), pictures, nextTableName));
+  }
+
+  zip.file('content.xml', `<?xml version="1.0" encoding="UTF-8"?>
+<office:document-content ${NAMESPACES}>
+${AUTOMATIC_STYLES}
+<office:body><office:text>
+${body.join('\n')}
+</office:text></office:body>
+</office:document-content>
+`);
+  zip.file('styles.xml', getStylesXml(layout, page));
+  zip.file('META-INF/manifest.xml', `<?xml version="1.0" encoding="UTF-8"?>
+<manifest:manifest xmlns:manifest="urn:oasis:names:tc:opendocument:xmlns:manifest:1.0" manifest:version="1.3">
+<manifest:file-entry manifest:full-path="/" manifest:version="1.3" manifest:media-type="${ODT_MIME_TYPE}"/>
+<manifest:file-entry manifest:full-path="content.xml" manifest:media-type="text/xml"/>
+<manifest:file-entry manifest:full-path="styles.xml" manifest:media-type="text/xml"/>
+${manifest.join('\n')}
+</manifest:manifest>
+`);
+
+  return zip.generateAsync({ type: 'blob', mimeType: ODT_MIME_TYPE });
+};
+
+export const odtExporter: Exporter = {
+  name: 'OpenDocument (.odt)',
+  extension: 'odt',
+  export: buildOdt,
+};
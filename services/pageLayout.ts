@@ -0,0 +1,55 @@
+import { LayoutSettings, PageOrientation, PageSize } from "../types";
+
+// Page geometry in points (1/72 inch), derived from the layout settings
+
+const PAGE_SIZES_MM: Record<Exclude<PageSize, PageSize.CUSTOM>, { width: number; height: number }> = {
+  [PageSize.A4]: { width: 210, height: 297 },
+  [PageSize.LETTER]: { width: 215.9, height: 279.4 },
+};
+
+// Smallest content area left after margins, so absurd margins cannot produce a zero-width page
+const MIN_CONTENT_PT = 72;
+
+export const mmToPt = (mm: number): number => (mm * 72) / 25.4;
+
+export const ptToTwips = (pt: number): number => Math.round(pt * 20);
+
+// docx image sizes are in pixels at 96 DPI
+export const ptToPx = (pt: number): number => (pt * 96) / 72;
+
+export interface PageGeometry {
+  width: number; // Oriented page size
+  height: number;
+  margins: { top: number; right: number; bottom: number; left: number };
+  contentWidth: number; // Area inside the margins
+  contentHeight: number;
+}
+
+/**
+ * Page size, margins and content area for the layout settings, with the orientation applied
+ */
+export const getPageGeometry = (layout: LayoutSettings): PageGeometry => {
+  const base = layout.pageSize === PageSize.CUSTOM
+    ? { width: layout.customWidthMm, height: layout.customHeightMm }
+    : PAGE_SIZES_MM[layout.pageSize];
+  const short = mmToPt(Math.min(base.width, base.height));
+  const long = mmToPt(Math.max(base.width, base.height));
+  const landscape = layout.orientation === PageOrientation.LANDSCAPE;
+  const width = landscape ? long : short;
+  const height = landscape ? short : long;
+
+  const margins = {
+    top: mmToPt(layout.margins.top),
+    right: mmToPt(layout.margins.right),
+    bottom: mmToPt(layout.margins.bottom),
+    left: mmToPt(layout.margins.left),
+  };
+
+  return {
+    width,
+    height,
+    margins,
+    contentWidth: Math.max(MIN_CONTENT_PT, width - margins.left - margins.right),
+    contentHeight: Math.max(MIN_CONTENT_PT, height - margins.top - margins.bottom),
+  };
+};
@@ -0,0 +1,53 @@
+import { getDocument, GlobalWorkerOptions } from "pdfjs-dist";
+import workerUrl from "pdfjs-dist/build/pdf.worker.min.mjs?url";
+
+GlobalWorkerOptions.workerSrc = workerUrl;
+
+// PDF user space is 72 units per inch
+const PDF_POINTS_PER_INCH = 72;
+
+export interface RasterizedPage {
+  pageNumber: number;
+  file: File;
+}
+
+export const isPdfFile = (file: File): boolean =>
+  file.type === 'application/pdf' || file.name.toLowerCase().endsWith('.pdf');
+
+/**
+ * Renders every page of a PDF to a PNG image at the given DPI.
+ * The page images are used both for the OCR call and for cropping.
+ */
+export const rasterizePdf = async (file: File, dpi: number): Promise<RasterizedPage[]> => {
+  const pdf = await getDocument({ data: await file.arrayBuffer() }).promise;
+  const baseName = file.name.replace(/\.pdf$/i, '');
+  const pages: RasterizedPage[] = [];
+
+  try {
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const viewport = page.getViewport({ scale: dpi / PDF_POINTS_PER_INCH });
+
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.floor(viewport.width);
+      canvas.height = Math.floor(viewport.height);
+
+      await page.render({ canvas, viewport }).promise;
+      page.cleanup();
+
+      const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+      if (!blob) {
+        throw new Error(`Could not render page ${pageNumber} of ${file.name}`);
+      }
+
+      pages.push({
+        pageNumber,
+        file: new File([blob], `${baseName}-p${String(pageNumber).padStart(3, '0')}.png`, { type: 'image/png' }),
+      });
+    }
+  } finally {
+    await pdf.destroy();
+  }
+
+  return pages;
+};
@@ -0,0 +1,112 @@
+import { PreprocessSettings } from "../types";
+import { PixelBuffer, adaptiveThreshold, detectPageCorners, estimateSkewAngle, stretchContrast, toGrayscale, warpPerspective } from "./imageFilters";
+
+// Cleans up an image on a canvas before OCR: orientation, scale, perspective, skew and tone.
+// The result replaces the original for OCR and cropping, so boxes and crops refer to the same pixels.
+
+// Tilts smaller than this are left alone; rotating resamples the whole image
+export const MIN_SKEW_DEGREES = 0.2;
+// Photos stay JPEG to keep them small; black-and-white and gray images compress better as PNG
+export const JPEG_QUALITY = 0.92;
+
+/**
+ * Format of the processed image: PNG for monochrome results and PNG sources, JPEG for photos
+ */
+export const getProcessedType = (file: File, settings: PreprocessSettings): 'image/png' | 'image/jpeg' =>
+  settings.grayscale || settings.threshold || file.type === 'image/png' ? 'image/png' : 'image/jpeg';
+
+export const getProcessedName = (name: string, type: 'image/png' | 'image/jpeg'): string =>
+  `${name.replace(/\.[^.]+$/, '')}-processed.${type === 'image/png' ? 'png' : 'jpg'}`;
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error("Could not get canvas context");
+  }
+  return { canvas, ctx };
+};
+
+const bufferToCanvas = (image: PixelBuffer) => {
+  const result = createCanvas(image.width, image.height);
+  result.ctx.putImageData(new ImageData(image.data, image.width, image.height), 0, 0);
+  return result;
+};
+
+/**
+ * Rotates the image around its centre onto a canvas large enough to hold it, filling the corners white
+ */
+const rotate = (source: HTMLCanvasElement, degrees: number) => {
+  const radians = (degrees * Math.PI) / 180;
+  const cos = Math.abs(Math.cos(radians));
+  const sin = Math.abs(Math.sin(radians));
+  const { canvas, ctx } = createCanvas(
+    Math.round(source.width * cos + source.height * sin),
+    Math.round(source.width * sin + source.height * cos)
+  );
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.translate(canvas.width / 2, canvas.height / 2);
+  ctx.rotate(radians);
+  ctx.drawImage(source, -source.width / 2, -source.height / 2);
+  return { canvas, ctx };
+};
+
+const canvasToFile = (canvas: HTMLCanvasElement, name: string, type: 'image/png' | 'image/jpeg'): Promise<File> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob(blob => {
+      if (!blob) {
+        reject(new Error("Could not encode the processed image"));
+        return;
+      }
+      resolve(new File([blob], getProcessedName(name, type), { type }));
+    }, type, JPEG_QUALITY);
+  });
+
+/**
+ * Runs the enabled pre-processing steps and returns the processed image
+ */
+export const preprocessImage = async (file: File, settings: PreprocessSettings): Promise<File> => {
+  try {
+    // Decoding with "from-image" applies the EXIF orientation, so phone photos come out upright
+    const bitmap = await createImageBitmap(file, { imageOrientation: settings.autoRotate ? 'from-image' : 'none' });
+    const scale = Math.min(1, settings.maxDimension / Math.max(bitmap.width, bitmap.height));
+    let { canvas, ctx } = createCanvas(Math.round(bitmap.width * scale), Math.round(bitmap.height * scale));
+    // White behind transparent images, which would otherwise turn black in JPEG
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    bitmap.close();
+
+    if (settings.perspective) {
+      const image = ctx.getImageData(0, 0, canvas.width, canvas.height);
+      const corners = detectPageCorners(image);
+      if (corners) {
+        ({ canvas, ctx } = bufferToCanvas(warpPerspective(image, corners)));
+      }
+    }
+
+    if (settings.deskew) {
+      const angle = estimateSkewAngle(ctx.getImageData(0, 0, canvas.width, canvas.height));
+      if (Math.abs(angle) >= MIN_SKEW_DEGREES) {
+        ({ canvas, ctx } = rotate(canvas, -angle));
+      }
+    }
+
+    const tone = settings.grayscale || settings.contrast || settings.threshold;
+    if (tone) {
+      const image = ctx.getImageData(0, 0, canvas.width, canvas.height);
+      if (settings.grayscale) toGrayscale(image);
+      if (settings.contrast) stretchContrast(image);
+      if (settings.threshold) adaptiveThreshold(image);
+      ctx.putImageData(image, 0, 0);
+    }
+
+    return await canvasToFile(canvas, file.name, getProcessedType(file, settings));
+  } catch (error) {
+    console.error("Failed to pre-process image:", error);
+    throw error;
+  }
+};
@@ -0,0 +1,169 @@
+import { CropElement, PromptProfile } from "../types";
+import { v4 as uuidv4 } from "uuid";
+
+// Prompt profiles: built-in presets for common document types plus the user's own,
+// which are kept in localStorage and can be shared as JSON files.
+
+const STORAGE_KEY = 'snapscript.promptProfiles';
+
+export const DEFAULT_PROFILE_ID = 'builtin-general';
+
+const OCR_ROLE = "You are an expert OCR (Optical Character Recognition) assistant";
+
+export const BUILT_IN_PROFILES: PromptProfile[] = [
+  {
+    id: DEFAULT_PROFILE_ID,
+    name: 'Academic / scientific',
+    builtIn: true,
+    systemInstruction: `${OCR_ROLE} specialized in academic and scientific documents.`,
+    userPrompt: "Transcribe the image into content blocks. Replace any charts, graphs, or chemical formulas with crop or equation boxes.",
+    temperature: 0.1,
+    model: '',
+    cropElements: [CropElement.MATH, CropElement.CHEMISTRY, CropElement.DIAGRAMS, CropElement.CHARTS],
+  },
+  {
+    id: 'builtin-math-exam',
+    name: 'Math exam',
+    builtIn: true,
+    systemInstruction: `${OCR_ROLE} specialized in mathematics exams and worksheets.
+Each question is an ordered list item (or a heading followed by paragraphs for long questions); keep its number out of the text.
+Multiple-choice options (A, B, C, D) are ordered list items one level below their question.
+Keep point values, instructions and answer spaces as text. Every formula, however short, is an equation.`,
+    userPrompt: "Transcribe the exam into content blocks, keeping each question and its options together. Replace formulas with equation boxes and figures with crop boxes.",
+    temperature: 0.1,
+    model: '',
+    cropElements: [CropElement.MATH, CropElement.DIAGRAMS, CropElement.CHARTS],
+  },
+  {
+    id: 'builtin-chemistry',
+    name: 'Chemistry',
+    builtIn: true,
+    systemInstruction: `${OCR_ROLE} specialized in chemistry textbooks, lab sheets and exams.
+Reaction equations, formulas and structures are complex elements, even inside sentences. Keep reaction conditions written above or below arrows with their equation.`,
+    userPrompt: "Transcribe the image into content blocks. Replace chemical formulas, reaction equations and structures with crop boxes.",
+    temperature: 0.1,
+    model: '',
+    cropElements: [CropElement.CHEMISTRY, CropElement.MATH, CropElement.DIAGRAMS, CropElement.CHARTS],
+  },
+  {
+    id: 'builtin-receipt',
+    name: 'Receipt / invoice',
+    builtIn: true,
+    systemInstruction: `${OCR_ROLE} specialized in receipts, invoices and bills.
+The shop or company name is a heading. The line items (description, quantity, price, amount) are a table with a header row, even when the receipt prints no column titles.
+Copy numbers, prices, dates, tax IDs and totals exactly, with their currency symbols and separators. Never compute or correct amounts.`,
+    userPrompt: "Transcribe the receipt into content blocks, with the line items as a table.",
+    temperature: 0,
+    model: '',
+    cropElements: [],
+  },
+  {
+    id: 'builtin-notes',
+    name: 'Handwritten notes',
+    builtIn: true,
+    systemInstruction: `${OCR_ROLE} specialized in handwritten lecture notes and study notes.
+Underlined or boxed titles are headings. Arrows and bullets at the start of a line make list items; indentation makes sublists.
+Small sketches are diagrams.`,
+    userPrompt: "Transcribe the handwritten notes into content blocks.",
+    temperature: 0.2,
+    model: '',
+    cropElements: [CropElement.MATH, CropElement.DIAGRAMS],
+  },
+  {
+    id: 'builtin-book',
+    name: 'Book / plain text',
+    builtIn: true,
+    systemInstruction: `${OCR_ROLE} specialized in books, novels and other running text.
+Join words hyphenated at the end of a line. Chapter titles are headings. Page numbers and running titles are running headers or footers.`,
+    userPrompt: "Transcribe the page into content blocks.",
+    temperature: 0.1,
+    model: '',
+    cropElements: [CropElement.DIAGRAMS, CropElement.PICTURES],
+  },
+];
+
+export const loadCustomProfiles = (): PromptProfile[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? JSON.parse(raw) as PromptProfile[] : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveCustomProfiles = (profiles: PromptProfile[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(profiles));
+};
+
+/**
+ * Finds a profile by id, falling back to the default preset when it was deleted
+ */
+export const resolveProfile = (profiles: PromptProfile[], id: string | undefined): PromptProfile =>
+  profiles.find(profile => profile.id === id)
+    ?? profiles.find(profile => profile.id === DEFAULT_PROFILE_ID)
+    ?? BUILT_IN_PROFILES[0];
+
+/**
+ * Editable copy of a profile under a new id
+ */
+export const copyProfile = (profile: PromptProfile, name = `${profile.name} (copy)`): PromptProfile => ({
+  ...profile,
+  id: uuidv4(),
+  name,
+  builtIn: undefined,
+  cropElements: [...profile.cropElements],
+});
+
+const CROP_ELEMENTS = new Set<string>(Object.values(CropElement));
+
+const readProfile = (raw: unknown, index: number): PromptProfile => {
+  const fail = (message: string): never => {
+    throw new Error(`Profile ${index + 1} in the file ${message}.`);
+  };
+  if (typeof raw !== 'object' || raw === null) return fail('is not an object');
+  const value = raw as Record<string, unknown>;
+  if (typeof value.name !== 'string' || !value.name.trim()) fail('has no name');
+  if (typeof value.systemInstruction !== 'string' || !value.systemInstruction.trim()) fail('has no system instruction');
+  if (typeof value.userPrompt !== 'string' || !value.userPrompt.trim()) fail('has no user prompt');
+  const temperature = value.temperature ?? 0.1;
+  if (typeof temperature !== 'number' || temperature < 0 || temperature > 2) fail('has a temperature outside 0-2');
+  const cropElements = value.cropElements ?? [];
+  if (!Array.isArray(cropElements) || cropElements.some(element => !CROP_ELEMENTS.has(element))) {
+    fail(`has unknown crop elements (expected ${[...CROP_ELEMENTS].join(', ')})`);
+  }
+  return {
+    id: uuidv4(),
+    name: (value.name as string).trim(),
+    systemInstruction: value.systemInstruction as string,
+    userPrompt: value.userPrompt as string,
+    temperature: temperature as number,
+    model: typeof value.model === 'string' ? value.model.trim() : '',
+    cropElements: cropElements as CropElement[],
+  };
+};
+
+/**
+ * Reads profiles exported by exportProfiles (a single profile object is accepted too).
+ * Imported profiles get new ids, so they never replace existing ones.
+ */
+export const importProfiles = (json: string): PromptProfile[] => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    throw new Error("The file is not valid JSON.");
+  }
+  const list = Array.isArray(raw) ? raw : [raw];
+  if (list.length === 0) {
+    throw new Error("The file contains no profiles.");
+  }
+  return list.map(readProfile);
+};
+
+/**
+ * Serialises profiles for sharing; ids are left out because importing assigns new ones
+ */
+export const exportProfiles = (profiles: PromptProfile[]): Blob => {
+  const data = profiles.map(({ id, builtIn, ...profile }) => profile);
+  return new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
+};
@@ -0,0 +1,175 @@
+import { CropElement, ExtractionOptions, FormulaMode, PromptProfile } from "../types";
+
+// Shared prompt contract for every OCR provider.
+// All providers must answer with the JSON block list described by OCR_RESPONSE_SCHEMA
+// (see blockSchema.ts) so the docx builder can handle their output the same way.
+// A prompt profile supplies the opening description of the documents and the elements to crop;
+// the block format below is always added, since the response is parsed against it.
+
+const CROP_ELEMENT_NAMES: Record<CropElement, string> = {
+  [CropElement.MATH]: 'Math Formulas',
+  [CropElement.CHEMISTRY]: 'Chemical Formulas, Organic Structures',
+  [CropElement.DIAGRAMS]: 'Geometry Diagrams, Figures',
+  [CropElement.CHARTS]: 'Charts, Graphs',
+  [CropElement.PICTURES]: 'Photos, Logos, Stamps, Signatures',
+};
+
+const buildLogicFlow = (cropElements: CropElement[]) => {
+  if (cropElements.length === 0) {
+    return `
+Your task is to transcribe the provided image into a list of structured content blocks.
+
+LOGIC FLOW:
+1.  Analyse the page layout first (see LAYOUT AND READING ORDER) and transcribe in reading order.
+2.  Transcribe all text exactly as it appears, as "heading", "paragraph", "listItem" or "table" blocks.
+3.  Do not output "crop" or "equation" blocks. Write formulas as plain text and leave out pictures.
+`;
+  }
+  const names = cropElements.map(element => CROP_ELEMENT_NAMES[element]).join(', ');
+  const textOnly = cropElements.includes(CropElement.MATH) ? '' : `
+5.  Math formulas are text: write them inline as plain text, never as "equation" blocks.`;
+  return `
+Your task is to transcribe the provided image into a list of structured content blocks, but INTELLIGENTLY HANDLE complex elements.
+
+LOGIC FLOW:
+1.  Analyse the page layout first (see LAYOUT AND READING ORDER) and transcribe in reading order.
+2.  Identify regions: "Text" vs "Complex Element" (${names}).
+3.  IF TEXT: Transcribe it exactly as it appears, as "heading", "paragraph", "listItem" or "table" blocks.
+4.  IF COMPLEX ELEMENT:
+    -   DO NOT transcribe the text inside this element.
+    -   DO NOT describe the element.
+    -   Calculate the bounding box (0-1000 scale).
+    -   Output a "crop" block (or an "equation" block for math formulas) with "box": [ymin, xmin, ymax, xmax].
+    -   Resume transcription AFTER the element.${textOnly}
+`;
+};
+
+const FORMAT_INSTRUCTION = `
+BLOCK TYPES:
+-   heading: { "type": "heading", "level": 1-6, "text": "..." }
+-   paragraph: { "type": "paragraph", "segments": [...] }
+-   listItem: { "type": "listItem", "ordered": true|false, "level": 0 for top level, "segments": [...] }. Do not include the bullet or number in the text.
+-   table: { "type": "table", "rows": [{ "header": true|false, "cells": [{ "text": "...", "colSpan": 1, "rowSpan": 1 }, ...] }, ...] }
+-   crop: { "type": "crop", "box": [ymin, xmin, ymax, xmax] }
+-   equation: { "type": "equation", "box": [ymin, xmin, ymax, xmax] }
+
+SEGMENTS (inside paragraphs and list items):
+-   { "type": "text", "text": "..." }
+-   { "type": "crop", "box": [...] } or { "type": "equation", "box": [...] } for a formula or structure that is inline (inside a sentence).
+-   Example: "The reaction of <structure> yields..." becomes
+    [{ "type": "text", "text": "The reaction of " }, { "type": "crop", "box": [200, 100, 400, 300] }, { "type": "text", "text": " yields..." }]
+
+LAYOUT AND READING ORDER:
+-   Find the page's columns, sidebars (boxed or marginal notes), running headers, running footers (including page numbers) and footnotes.
+-   Output blocks in the order a person reads them: full-width content above the columns, then the whole first column top to bottom, then the second column, and so on, then full-width content below. Never interleave lines from different columns.
+-   Side-by-side questions or exercises are columns too: finish the left one before starting the right one.
+-   Add "region" to every block that is not main body text: "header", "footer", "footnote" or "sidebar". Place a sidebar where it is referenced or next to the text it sits beside; footnotes go last.
+-   Add "column" (1 = leftmost) to body blocks that sit in a multi-column area. Omit it for full-width content such as a title spanning all columns.
+
+FORMATTING:
+-   Use the heading level that matches the document's hierarchy (1 for the main title, 2 for sections, ...). Heading text is plain.
+-   Inside "text" segments, mark visibly emphasized words: **bold**, *italic*, <u>underlined</u>. They can be combined, e.g. ***bold italic***.
+-   Use no other Markdown: no # or list markers inside text, no links, no code.
+-   Keep the list structure: one "listItem" per item, "ordered" for numbered or lettered items, and "level" for nesting (an item indented under another is one level deeper).
+
+CONFIDENCE:
+-   Add "confidence" to every heading, paragraph, listItem and table block: a number from 0 to 1 for how sure you are that its transcription is exactly right.
+-   Use 1 for clearly printed text you read without doubt, and below 0.7 when parts were hard to read or guessed (faint, blurred, cut off or messy handwriting). Be honest: low values are what reviewers check first.
+
+TABLES:
+-   Any grid of values with rows and columns (ruled or aligned) is a "table" block. Never flatten it into lines and never crop it.
+-   Mark the column-title rows with "header": true.
+-   A merged cell is written once, at its top-left position, with "colSpan" and/or "rowSpan" > 1. Omit the positions it covers in the following columns and rows.
+-   If a cell contains a formula or structure, transcribe what you can as text; do not crop inside tables.
+
+RULES:
+-   ymin, xmin, ymax, xmax are integers from 0 to 1000.
+-   Each visual paragraph is one "paragraph" block. Do not split a paragraph at line wraps.
+-   Write text in the language and script it appears in. Never translate, transliterate or correct it.
+-   Keep every accent and diacritic exactly as written, including stacked ones (e.g. Vietnamese "ắ", "ệ", "ữ", "đ"). Never drop or simplify them.
+-   Output only the JSON object { "blocks": [...] }. No markdown code blocks.
+`;
+
+const PRINTED_INSTRUCTION = `
+-   If handwriting is illegible, write [Illegible].
+`;
+
+const HANDWRITING_INSTRUCTION = `
+HANDWRITING (handwriting mode):
+-   The page is handwritten, in whole or in part (notes, exercise answers, annotations on a printed page).
+-   Read each word in the context of its sentence and language; a letter that is unclear on its own is usually clear from the word around it.
+-   Transcribe what the writer wrote, including their spelling mistakes. Leave out crossed-out text.
+-   Handwritten notes in the margins of a printed page are "sidebar" blocks, placed next to the text they annotate.
+-   Give your best reading of every word. Write [Illegible] only when you cannot make out a word at all, not even as a guess.
+`;
+
+const UNCERTAIN_INSTRUCTION = `
+UNCERTAIN WORDS:
+-   Inside "text" segments, wrap every word you are not confident you read correctly in <?>...</?>, e.g. "the <?>reaction</?> is fast".
+-   Mark single words or short phrases only, and only when a reader should check them against the image. Do not mark text you read clearly.
+`;
+
+const LATEX_INSTRUCTION = `
+MATH FORMULAS (LaTeX mode):
+-   For every mathematical formula, output an "equation" (block for display formulas on their own line, segment for inline formulas).
+-   Always include BOTH "latex" (the formula in LaTeX, without $ delimiters) AND "box" (its bounding box).
+-   Use only basic LaTeX: \\frac, \\sqrt, ^, _, \\sum, \\int, \\left( \\right), Greek letters, \\text{}. No matrices or aligned environments.
+-   Chemical structures, diagrams and charts are still "crop" elements.
+`;
+
+const CHEMISTRY_INSTRUCTION = `
+CHEMISTRY (chemistry mode):
+-   Chemical formulas and structures are still "crop" elements with a "box", but add what they show:
+    -   "formula": for a formula written on one line (e.g. "H2SO4", "Ca(OH)2", "CuSO4·5H2O", "2H2 + O2 -> 2H2O").
+        Write atom counts as plain digits and charges after "^" (e.g. "SO4^2-", "Na^+").
+    -   "smiles": for a drawn structure (skeletal formula, rings, structural diagram), its SMILES string.
+-   Give "formula" OR "smiles", not both. Omit both if you are not sure.
+`;
+
+const LINE_POSITIONS_INSTRUCTION = `
+LINE POSITIONS:
+-   Besides "blocks", output "lines": every printed line of text in reading order, as { "text": "...", "box": [ymin, xmin, ymax, xmax] }.
+-   A line is one row of text as it appears on the page (a paragraph that wraps over three rows is three lines). Include text inside tables, one entry per cell line.
+-   The box must tightly enclose the line. Do not include crop or equation regions.
+-   Output the object { "blocks": [...], "lines": [...] }.
+`;
+
+const buildLanguageInstruction = (languages: string[]) => `
+LANGUAGES:
+-   The pages are written in ${languages.join(', ')}. Pages and even sentences may mix them; read each word in its own language.
+-   Text in other languages may still appear; transcribe it as it is.
+`;
+
+/**
+ * Builds the system instruction for the selected extraction options
+ */
+export const buildSystemInstruction = (options: ExtractionOptions, profile: PromptProfile): string => {
+  const crops = (element: CropElement) => profile.cropElements.includes(element);
+  let instruction = profile.systemInstruction.trim() + '\n' + buildLogicFlow(profile.cropElements) + FORMAT_INSTRUCTION;
+  instruction += options.handwriting ? HANDWRITING_INSTRUCTION : PRINTED_INSTRUCTION;
+  if (options.languages.length > 0) {
+    instruction += buildLanguageInstruction(options.languages);
+  }
+  if (options.markUncertain) {
+    instruction += UNCERTAIN_INSTRUCTION;
+  }
+  if (options.formulaMode === FormulaMode.LATEX && crops(CropElement.MATH)) {
+    instruction += LATEX_INSTRUCTION;
+  }
+  if (options.chemistryMode && crops(CropElement.CHEMISTRY)) {
+    instruction += CHEMISTRY_INSTRUCTION;
+  }
+  if (options.linePositions) {
+    instruction += LINE_POSITIONS_INSTRUCTION;
+  }
+  return instruction;
+};
+
+
+/**
+ * Removes a wrapping ``` code fence that some models add despite the instructions
+ */
+export const stripCodeFences = (text: string): string => {
+  const match = text.trim().match(/^```[a-zA-Z]*\n([\s\S]*?)\n?```$/);
+  return (match ? match[1] : text).trim();
+};
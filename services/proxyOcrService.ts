@@ -0,0 +1,56 @@
+import { ExtractionOptions, OcrResult, PromptProfile } from "../types";
+import type { OcrProvider } from "./ocrProvider";
+import { fileToBase64 } from "./fileUtils";
+import { toAcceptedImage } from "./imageService";
+import { GEMINI_IMAGE_TYPES } from "./geminiService";
+import { OcrHttpError, fetchOrNetworkError, parseRetryAfter } from "./errors";
+
+/**
+ * Body of POST /extract on the proxy server (server/index.ts)
+ */
+export interface ProxyExtractRequest {
+  image: string; // Base64, without the data URL prefix
+  mimeType: string;
+  options: ExtractionOptions;
+  profile: PromptProfile;
+}
+
+/**
+ * Creates a provider that sends images to our proxy server, which holds the Gemini API key,
+ * so the key never reaches the browser. The server answers with the validated OcrResult.
+ */
+export const createProxyProvider = (baseUrl: string): OcrProvider => {
+  const extract = async (upload: File, options: ExtractionOptions, profile: PromptProfile, signal?: AbortSignal): Promise<OcrResult> => {
+    // The server takes the types Gemini reads, so GIF, BMP and the like are converted here
+    const file = await toAcceptedImage(upload, GEMINI_IMAGE_TYPES);
+    const body: ProxyExtractRequest = {
+      image: await fileToBase64(file),
+      mimeType: file.type || 'image/png',
+      options,
+      profile,
+    };
+    const response = await fetchOrNetworkError(`${baseUrl.replace(/\/+$/, '')}/extract`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      signal,
+      body: JSON.stringify(body),
+    });
+
+    if (!response.ok) {
+      // The server explains refusals (rate limit, size, model) in an "error" field
+      const reason = await response.json().then((data: { error?: string }) => data.error, () => undefined);
+      throw new OcrHttpError(
+        reason ?? `OCR server returned ${response.status} ${response.statusText}`,
+        response.status,
+        parseRetryAfter(response.headers.get('Retry-After'))
+      );
+    }
+
+    return await response.json() as OcrResult;
+  };
+
+  return {
+    name: 'Gemini (server)',
+    extract,
+  };
+};
@@ -0,0 +1,62 @@
+import { ContentBlock, RegionType, RunningHeaderMode } from "../types";
+
+// Applies the page regions found by layout analysis when exporting
+
+export const getRegion = (block: ContentBlock): RegionType => block.region ?? RegionType.BODY;
+
+export interface ArrangedRegions {
+  headers: ContentBlock[]; // Running headers to place outside the text (MOVE only)
+  body: ContentBlock[];
+  footers: ContentBlock[];
+}
+
+/**
+ * Separates the running headers and footers of one image according to the export setting
+ */
+export const arrangeRegions = (blocks: ContentBlock[], mode: RunningHeaderMode): ArrangedRegions => {
+  if (mode === RunningHeaderMode.KEEP) {
+    return { headers: [], body: blocks, footers: [] };
+  }
+  const body = blocks.filter(block => getRegion(block) !== RegionType.HEADER && getRegion(block) !== RegionType.FOOTER);
+  if (mode === RunningHeaderMode.DROP) {
+    return { headers: [], body, footers: [] };
+  }
+  return {
+    headers: blocks.filter(block => getRegion(block) === RegionType.HEADER),
+    body,
+    footers: blocks.filter(block => getRegion(block) === RegionType.FOOTER),
+  };
+};
+
+/**
+ * Blocks in export order for formats without page headers: moved running headers and footers
+ * go to the top and bottom of the image's text
+ */
+export const getExportBlocks = (blocks: ContentBlock[], mode: RunningHeaderMode): ContentBlock[] => {
+  const { headers, body, footers } = arrangeRegions(blocks, mode);
+  return [...headers, ...body, ...footers];
+};
+
+export interface ColumnRun {
+  columns: number; // 1 for full-width content
+  blocks: ContentBlock[];
+}
+
+/**
+ * Splits blocks into consecutive runs of full-width and multi-column content.
+ * The column count is the highest column number on the image.
+ */
+export const splitColumnRuns = (blocks: ContentBlock[]): ColumnRun[] => {
+  const columns = Math.max(1, ...blocks.map(block => block.column ?? 1));
+  const runs: ColumnRun[] = [];
+  for (const block of blocks) {
+    const count = block.column !== undefined ? columns : 1;
+    const last = runs[runs.length - 1];
+    if (last && last.columns === count) {
+      last.blocks.push(block);
+    } else {
+      runs.push({ columns: count, blocks: [block] });
+    }
+  }
+  return runs;
+};
@@ -0,0 +1,199 @@
+import {
+  PDFDocument,
+  PDFFont,
+  PDFImage,
+  PDFPage,
+  TextRenderingMode,
+  popGraphicsState,
+  pushGraphicsState,
+  setCharacterSqueeze,
+  setTextRenderingMode,
+} from "pdf-lib";
+import fontkit from "@pdf-lib/fontkit";
+import { ContentBlock, ExportOptions, InlineSegment, TextLine, UploadedFile } from "../types";
+import type { Exporter } from "./exporter";
+import { getExportableFiles, getSourceImage } from "./fileUtils";
+import { cropImage } from "./imageService";
+import { getPageGeometry } from "./pageLayout";
+
+// Searchable PDF export: one page per scan, with the OCR text drawn invisibly (render mode 3)
+// at the line positions, so it can be searched and selected but the page looks like the original.
+// Runs entirely in the browser with pdf-lib.
+
+/**
+ * DejaVu Sans, for its coverage: the standard PDF fonts only have Latin-1, which has no Vietnamese letters.
+ * Only this export needs it, so the font is loaded the first time a PDF is built.
+ */
+const loadTextFont = async (): Promise<ArrayBuffer> => {
+  const { default: dataUrl } = await import("dejavu-fonts-ttf/ttf/DejaVuSans.ttf?inline");
+  return (await fetch(dataUrl)).arrayBuffer();
+};
+
+// Text height relative to the line box; the rest is ascender/descender room
+const TEXT_HEIGHT_RATIO = 0.8;
+
+const EXIF_ORIENTATION_TAG = 0x0112;
+
+/**
+ * EXIF orientation of a JPEG (1-8), or 1 when it has none. Read from the first APP1 "Exif" segment.
+ */
+const getJpegOrientation = (data: ArrayBuffer): number => {
+  const view = new DataView(data);
+  if (view.byteLength < 4 || view.getUint16(0) !== 0xFFD8) return 1;
+
+  let offset = 2;
+  while (offset + 4 <= view.byteLength && view.getUint8(offset) === 0xFF) {
+    const marker = view.getUint8(offset + 1);
+    const length = view.getUint16(offset + 2);
+    // Start of scan: the metadata segments are all before it
+    if (marker === 0xDA) break;
+    if (marker === 0xE1 && offset + 10 <= view.byteLength && view.getUint32(offset + 4) === 0x45786966) {
+      const tiff = offset + 10;
+      if (tiff + 8 > view.byteLength) return 1;
+      const little = view.getUint16(tiff) === 0x4949;
+      const ifd = tiff + view.getUint32(tiff + 4, little);
+      if (ifd + 2 > view.byteLength) return 1;
+      const count = view.getUint16(ifd, little);
+      for (let i = 0; i < count; i++) {
+        const entry = ifd + 2 + i * 12;
+        if (entry + 12 > view.byteLength) return 1;
+        if (view.getUint16(entry, little) === EXIF_ORIENTATION_TAG) {
+          return view.getUint16(entry + 8, little);
+        }
+      }
+      return 1;
+    }
+    offset += 2 + length;
+  }
+  return 1;
+};
+
+const embedScan = async (pdf: PDFDocument, file: File): Promise<PDFImage> => {
+  const data = await file.arrayBuffer();
+  // pdf-lib embeds a JPEG's pixels as stored and ignores its EXIF orientation
+  if (file.type === 'image/jpeg' && getJpegOrientation(data) <= 1) return pdf.embedJpg(data);
+  if (file.type === 'image/png') return pdf.embedPng(data);
+  // Other formats (WebP, GIF, BMP, ...) and turned JPEGs are converted by cropping the whole image to PNG,
+  // which applies the EXIF orientation as the crops and the preview do
+  return pdf.embedPng((await cropImage(file, 0, 0, 1000, 1000)).data);
+};
+
+/**
+ * Pages keep the scan's aspect ratio and fit within the layout's page size, turned to match the scan
+ */
+const getPageSize = (image: PDFImage, shortSide: number, longSide: number) => {
+  const landscape = image.width > image.height;
+  const maxWidth = landscape ? longSide : shortSide;
+  const maxHeight = landscape ? shortSide : longSide;
+  const scale = Math.min(maxWidth / image.width, maxHeight / image.height);
+  return { width: image.width * scale, height: image.height * scale };
+};
+
+/**
+ * Draws one line of invisible text, stretched horizontally to cover its box on the page
+ */
+const drawInvisibleLine = (page: PDFPage, font: PDFFont, text: string, x: number, y: number, width: number, height: number) => {
+  const size = Math.max(1, height * TEXT_HEIGHT_RATIO);
+  const naturalWidth = font.widthOfTextAtSize(text, size);
+  if (naturalWidth <= 0) return;
+
+  page.pushOperators(
+    pushGraphicsState(),
+    setTextRenderingMode(TextRenderingMode.Invisible),
+    setCharacterSqueeze((width / naturalWidth) * 100),
+  );
+  // Baseline sits above the descender room at the bottom of the box
+  page.drawText(text, { x, y: y + (height - size) / 2 + size * 0.2, size, font });
+  page.pushOperators(popGraphicsState());
+};
+
+const drawTextLayer = (page: PDFPage, font: PDFFont, lines: TextLine[]) => {
+  const { width: pageWidth, height: pageHeight } = page.getSize();
+  for (const line of lines) {
+    if (!line.text.trim()) continue;
+    const { ymin, xmin, ymax, xmax } = line.box;
+    // OCR boxes are 0-1000 from the top-left; PDF coordinates start at the bottom-left
+    drawInvisibleLine(
+      page,
+      font,
+      line.text,
+      (xmin / 1000) * pageWidth,
+      pageHeight - (ymax / 1000) * pageHeight,
+      ((xmax - xmin) / 1000) * pageWidth,
+      ((ymax - ymin) / 1000) * pageHeight
+    );
+  }
+};
+
+const segmentsText = (segments: InlineSegment[]): string =>
+  segments.map(segment => segment.type === 'text' ? segment.text : '').join('');
+
+/**
+ * The written text of the blocks, one entry per block or table row. Crops and equations are images on the scan
+ * and add nothing to search.
+ */
+const getBlockText = (blocks: ContentBlock[]): string[] =>
+  blocks.flatMap(block => {
+    switch (block.type) {
+      case 'heading':
+        return [block.text];
+      case 'paragraph':
+      case 'listItem':
+        return [segmentsText(block.segments)];
+      case 'table':
+        return block.rows.map(row => row.cells.map(cell => cell.text).join(' '));
+      case 'crop':
+      case 'equation':
+        return [];
+    }
+  });
+
+/**
+ * Without line positions the text is still added, stacked from the top of the page,
+ * so the scan stays searchable even though selections do not line up with the image
+ */
+const drawUnalignedText = (page: PDFPage, font: PDFFont, blocks: ContentBlock[]) => {
+  const { height } = page.getSize();
+  const lines = getBlockText(blocks).flatMap(text => text.split('\n')).filter(line => line.trim());
+  const lineHeight = Math.min(12, height / Math.max(1, lines.length));
+  lines.forEach((line, i) => {
+    page.pushOperators(pushGraphicsState(), setTextRenderingMode(TextRenderingMode.Invisible));
+    page.drawText(line, { x: 10, y: height - (i + 1) * lineHeight, size: lineHeight * TEXT_HEIGHT_RATIO, font });
+    page.pushOperators(popGraphicsState());
+  });
+};
+
+const buildSearchablePdf = async (files: UploadedFile[], { layout }: ExportOptions): Promise<Blob> => {
+  const validFiles = getExportableFiles(files);
+  const { width: pageWidth, height: pageHeight } = getPageGeometry(layout);
+  const shortSide = Math.min(pageWidth, pageHeight);
+  const longSide = Math.max(pageWidth, pageHeight);
+  const pdf = await PDFDocument.create();
+  pdf.registerFontkit(fontkit);
+  // Subsetting keeps only the glyphs the text uses
+  const font = await pdf.embedFont(await loadTextFont(), { subset: true });
+  pdf.setTitle("Extracted Content");
+  pdf.setCreator("SnapScript OCR");
+
+  for (const file of validFiles) {
+    const image = await embedScan(pdf, getSourceImage(file));
+    const { width, height } = getPageSize(image, shortSide, longSide);
+    const page = pdf.addPage([width, height]);
+    page.drawImage(image, { x: 0, y: 0, width, height });
+
+    if (file.lines && file.lines.length > 0) {
+      drawTextLayer(page, font, file.lines);
+    } else {
+      drawUnalignedText(page, font, file.blocks!);
+    }
+  }
+
+  const bytes = await pdf.save();
+  return new Blob([bytes], { type: 'application/pdf' });
+};
+
+export const searchablePdfExporter: Exporter = {
+  name: 'Searchable PDF (.pdf)',
+  extension: 'pdf',
+  export: buildSearchablePdf,
+};
@@ -0,0 +1,175 @@
+import { Project, ProcessingStatus, UploadedFile } from "../types";
+
+// IndexedDB persistence for projects and their files.
+// Image blobs live in their own store and are only rewritten when pre-processing replaces them; the file records (status, blocks, order)
+// are small and rewritten on every change.
+
+const DB_NAME = 'snapscript';
+const DB_VERSION = 1;
+const PROJECTS = 'projects';
+const RECORDS = 'fileRecords';
+const BLOBS = 'fileBlobs';
+const ACTIVE_PROJECT_KEY = 'snapscript.activeProject';
+
+// Everything from UploadedFile except the images and their runtime-only preview URLs
+type FileRecord = Omit<UploadedFile, 'file' | 'previewUrl' | 'processedFile' | 'processedPreviewUrl'> & {
+  projectId: string;
+  order: number;
+};
+
+interface BlobRecord {
+  id: string;
+  projectId: string;
+  file: File;
+  processedFile?: File;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+// Pre-processed image last stored for each id (null for none), so unchanged images are not rewritten
+const storedBlobs = new Map<string, File | null>();
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error("IndexedDB transaction aborted"));
+  });
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        db.createObjectStore(PROJECTS, { keyPath: 'id' });
+        db.createObjectStore(RECORDS, { keyPath: 'id' }).createIndex('projectId', 'projectId');
+        db.createObjectStore(BLOBS, { keyPath: 'id' }).createIndex('projectId', 'projectId');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+export const getActiveProjectId = (): string | null => localStorage.getItem(ACTIVE_PROJECT_KEY);
+
+export const setActiveProjectId = (id: string) => {
+  localStorage.setItem(ACTIVE_PROJECT_KEY, id);
+};
+
+export const listProjects = async (): Promise<Project[]> => {
+  const db = await openDb();
+  const projects = await requestToPromise(db.transaction(PROJECTS).objectStore(PROJECTS).getAll() as IDBRequest<Project[]>);
+  return projects.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const saveProject = async (project: Project): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(PROJECTS, 'readwrite');
+  tx.objectStore(PROJECTS).put(project);
+  await transactionDone(tx);
+};
+
+export const createProject = async (name: string): Promise<Project> => {
+  const now = Date.now();
+  const project: Project = { id: crypto.randomUUID(), name, createdAt: now, updatedAt: now };
+  await saveProject(project);
+  return project;
+};
+
+export const deleteProject = async (projectId: string): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction([PROJECTS, RECORDS, BLOBS], 'readwrite');
+  tx.objectStore(PROJECTS).delete(projectId);
+  for (const storeName of [RECORDS, BLOBS]) {
+    const store = tx.objectStore(storeName);
+    const keys = await requestToPromise(store.index('projectId').getAllKeys(projectId));
+    keys.forEach(key => {
+      store.delete(key);
+      storedBlobs.delete(String(key));
+    });
+  }
+  await transactionDone(tx);
+};
+
+/**
+ * Loads a project's files in their saved order, with fresh preview URLs.
+ * Items that were mid-run when the page closed are reset so they can be processed again.
+ */
+export const loadProjectFiles = async (projectId: string): Promise<UploadedFile[]> => {
+  const db = await openDb();
+  const tx = db.transaction([RECORDS, BLOBS]);
+  const [records, blobs] = await Promise.all([
+    requestToPromise(tx.objectStore(RECORDS).index('projectId').getAll(projectId) as IDBRequest<FileRecord[]>),
+    requestToPromise(tx.objectStore(BLOBS).index('projectId').getAll(projectId) as IDBRequest<BlobRecord[]>),
+  ]);
+
+  const blobById = new Map(blobs.map(blob => [blob.id, blob]));
+  const interrupted = [ProcessingStatus.QUEUED, ProcessingStatus.PROCESSING, ProcessingStatus.RETRYING];
+
+  return records
+    .filter(record => blobById.has(record.id))
+    .sort((a, b) => a.order - b.order)
+    .map(({ projectId: _projectId, order: _order, ...record }) => {
+      const { file, processedFile } = blobById.get(record.id)!;
+      storedBlobs.set(record.id, processedFile ?? null);
+      const restored: UploadedFile = {
+        ...record,
+        file,
+        previewUrl: URL.createObjectURL(file),
+        processedFile,
+        processedPreviewUrl: processedFile ? URL.createObjectURL(processedFile) : undefined,
+      };
+      return interrupted.includes(record.status)
+        ? { ...restored, status: ProcessingStatus.IDLE, errorMessage: undefined }
+        : restored;
+    });
+};
+
+/**
+ * Writes the current file list of a project, removing files that are no longer in it
+ */
+export const saveProjectFiles = async (projectId: string, files: UploadedFile[]): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction([PROJECTS, RECORDS, BLOBS], 'readwrite');
+  const records = tx.objectStore(RECORDS);
+  const blobStore = tx.objectStore(BLOBS);
+
+  const currentIds = new Set(files.map(f => f.id));
+  const existingKeys = await requestToPromise(records.index('projectId').getAllKeys(projectId));
+  existingKeys
+    .filter(key => !currentIds.has(String(key)))
+    .forEach(key => {
+      records.delete(key);
+      blobStore.delete(key);
+      storedBlobs.delete(String(key));
+    });
+
+  files.forEach(({ file, previewUrl: _previewUrl, processedFile, processedPreviewUrl: _processedPreviewUrl, ...rest }, order) => {
+    const record: FileRecord = { ...rest, projectId, order };
+    records.put(record);
+    if (storedBlobs.get(rest.id) !== (processedFile ?? null)) {
+      const blob: BlobRecord = { id: rest.id, projectId, file, processedFile };
+      blobStore.put(blob);
+      storedBlobs.set(rest.id, processedFile ?? null);
+    }
+  });
+
+  const projects = tx.objectStore(PROJECTS);
+  const project = await requestToPromise(projects.get(projectId) as IDBRequest<Project | undefined>);
+  if (project) {
+    projects.put({ ...project, updatedAt: Date.now() });
+  }
+
+  await transactionDone(tx);
+};
@@ -0,0 +1,142 @@
+import { AppSettings, ExportFormat, FormulaMode, OcrProviderType, PageOrientation, PageSize, RunningHeaderMode, SourceSeparation, UncertainWordMarking } from "../types";
+import { DEFAULT_PROFILE_ID } from "./promptProfiles";
+
+const STORAGE_KEY = 'snapscript.settings';
+const API_KEY_STORAGE_KEYS: Record<OcrProviderType, string> = {
+  [OcrProviderType.GEMINI]: 'snapscript.geminiApiKey',
+  [OcrProviderType.LOCAL]: 'snapscript.localApiKey',
+};
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  provider: OcrProviderType.GEMINI,
+  local: {
+    endpoint: 'http://localhost:11434/v1',
+    model: 'llava',
+  },
+  extraction: {
+    formulaMode: FormulaMode.CROP,
+    chemistryMode: false,
+    linePositions: false,
+    languages: [],
+    handwriting: false,
+    markUncertain: true,
+  },
+  profileId: DEFAULT_PROFILE_ID,
+  pdfDpi: 200,
+  preprocess: {
+    enabled: true,
+    autoRotate: true,
+    perspective: true,
+    deskew: true,
+    grayscale: false,
+    contrast: false,
+    threshold: false,
+    maxDimension: 2400,
+  },
+  queue: {
+    concurrency: 3,
+    maxRetries: 4,
+  },
+  budget: {
+    enabled: false,
+    limitUsd: 1,
+  },
+  crops: {
+    padding: 0,
+    mergeOverlapping: true,
+    reaskInvalid: false,
+  },
+  exportFormat: ExportFormat.DOCX,
+  layout: {
+    pageSize: PageSize.A4,
+    customWidthMm: 210,
+    customHeightMm: 297,
+    orientation: PageOrientation.PORTRAIT,
+    margins: { top: 25.4, right: 25.4, bottom: 25.4, left: 25.4 },
+    fontFamily: 'Calibri',
+    fontSizePt: 12,
+    includeTitle: true,
+    includeSourceHeaders: true,
+    sourceSeparation: SourceSeparation.PAGE_BREAK,
+    tableOfContents: false,
+    recreateColumns: false,
+    runningHeaders: RunningHeaderMode.DROP,
+    uncertainWords: UncertainWordMarking.NONE,
+    confidenceComments: false,
+    cropRefinement: {
+      trim: true,
+      marginPx: 6,
+      upscaleSmall: false,
+      transparent: false,
+    },
+  },
+};
+
+/**
+ * Fills in the fields missing from saved (possibly older) settings with their defaults
+ */
+export const mergeSettings = (saved: Partial<AppSettings>): AppSettings => ({
+  ...DEFAULT_SETTINGS,
+  ...saved,
+  local: { ...DEFAULT_SETTINGS.local, ...saved.local },
+  extraction: { ...DEFAULT_SETTINGS.extraction, ...saved.extraction },
+  preprocess: { ...DEFAULT_SETTINGS.preprocess, ...saved.preprocess },
+  queue: { ...DEFAULT_SETTINGS.queue, ...saved.queue },
+  budget: { ...DEFAULT_SETTINGS.budget, ...saved.budget },
+  crops: { ...DEFAULT_SETTINGS.crops, ...saved.crops },
+  layout: {
+    ...DEFAULT_SETTINGS.layout,
+    ...saved.layout,
+    margins: { ...DEFAULT_SETTINGS.layout.margins, ...saved.layout?.margins },
+    cropRefinement: { ...DEFAULT_SETTINGS.layout.cropRefinement, ...saved.layout?.cropRefinement },
+  },
+});
+
+// API keys are kept out of localStorage; see loadSessionApiKey
+const withoutApiKeys = (settings: AppSettings): AppSettings => {
+  const { apiKey: _apiKey, ...local } = settings.local;
+  return { ...settings, local };
+};
+
+export const saveSettings = (settings: AppSettings) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(withoutApiKeys(settings)));
+};
+
+/**
+ * Reads the settings saved in localStorage, falling back to defaults for missing fields.
+ * A local-provider key saved there by an older version is removed.
+ */
+export const loadSettings = (): AppSettings => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return DEFAULT_SETTINGS;
+    const saved = JSON.parse(raw) as Partial<AppSettings>;
+    const settings = withoutApiKeys(mergeSettings(saved));
+    if (saved.local?.apiKey !== undefined) {
+      saveSettings(settings);
+    }
+    return settings;
+  } catch {
+    return DEFAULT_SETTINGS;
+  }
+};
+
+/**
+ * The user's own API key for a provider: Gemini in builds without the proxy server, or the local endpoint's.
+ * It lives in sessionStorage only: never saved with the settings, and forgotten when the tab is closed.
+ */
+export const loadSessionApiKey = (provider: OcrProviderType): string => {
+  try {
+    return sessionStorage.getItem(API_KEY_STORAGE_KEYS[provider]) ?? '';
+  } catch {
+    return '';
+  }
+};
+
+export const saveSessionApiKey = (provider: OcrProviderType, apiKey: string) => {
+  if (apiKey) {
+    sessionStorage.setItem(API_KEY_STORAGE_KEYS[provider], apiKey);
+  } else {
+    sessionStorage.removeItem(API_KEY_STORAGE_KEYS[provider]);
+  }
+};
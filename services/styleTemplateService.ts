@@ -0,0 +1,68 @@
+import JSZip from "jszip";
+import { StyleTemplate } from "../types";
+
+// A user-supplied .docx whose styles (fonts, heading and paragraph formatting) replace the
+// defaults in Word exports. Only the style parts are kept, small enough for localStorage.
+
+const STORAGE_KEY = 'snapscript.styleTemplate';
+const STYLES_PATH = 'word/styles.xml';
+const THEME_PATH = 'word/theme/theme1.xml';
+
+const DOCX_MIME_TYPE = "application/vnd.openxmlformats-officedocument.wordprocessingml.document";
+
+/**
+ * Reads the style parts of a .docx file; throws when it is not a Word document
+ */
+export const readStyleTemplate = async (file: File): Promise<StyleTemplate> => {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(await file.arrayBuffer());
+  } catch {
+    throw new Error(`${file.name} is not a valid .docx file.`);
+  }
+
+  const styles = zip.file(STYLES_PATH);
+  if (!styles) {
+    throw new Error(`${file.name} does not contain any styles.`);
+  }
+
+  return {
+    name: file.name,
+    stylesXml: await styles.async('string'),
+    themeXml: await zip.file(THEME_PATH)?.async('string'),
+  };
+};
+
+export const loadStyleTemplate = (): StyleTemplate | null => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? JSON.parse(raw) as StyleTemplate : null;
+  } catch {
+    return null;
+  }
+};
+
+export const saveStyleTemplate = (template: StyleTemplate | null) => {
+  if (!template) {
+    localStorage.removeItem(STORAGE_KEY);
+    return;
+  }
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(template));
+  } catch (error) {
+    console.error("Failed to store style template:", error);
+    throw new Error("The template's styles are too large to be saved in the browser.");
+  }
+};
+
+/**
+ * Swaps the style parts of a generated .docx for those of the template
+ */
+export const applyStyleTemplate = async (docx: Blob, template: StyleTemplate): Promise<Blob> => {
+  const zip = await JSZip.loadAsync(await docx.arrayBuffer());
+  zip.file(STYLES_PATH, template.stylesXml);
+  if (template.themeXml && zip.file(THEME_PATH)) {
+    zip.file(THEME_PATH, template.themeXml);
+  }
+  return zip.generateAsync({ type: 'blob', mimeType: DOCX_MIME_TYPE });
+};
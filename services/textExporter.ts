@@ -0,0 +1,59 @@
+import { ContentBlock, ExportOptions, InlineSegment, TableBlock, UploadedFile } from "../types";
+import type { Exporter } from "./exporter";
+import { expandTableGrid } from "./contentBlocks";
+import { getExportableFiles, getSourceLabel } from "./fileUtils";
+import { getExportBlocks } from "./regionLayout";
+import { groupBlocks, listMarkers } from "./exportAssets";
+
+// Plain-text export. Crops cannot be embedded, so they become their chemistry annotation
+// or LaTeX when there is one, and a short placeholder otherwise.
+
+const renderSegments = (segments: InlineSegment[]): string =>
+  segments.map(segment => {
+    if (segment.type === 'text') return segment.text;
+    if (segment.type === 'equation') return segment.latex ?? '[Equation]';
+    return segment.chemistry?.formula ?? (segment.chemistry?.smiles ? `[Structure: ${segment.chemistry.smiles}]` : '[Image]');
+  }).join('');
+
+// Tab-separated rows; merged positions are left empty
+const renderTable = (table: TableBlock): string =>
+  expandTableGrid(table)
+    .map(row => row.map(slot => typeof slot === 'string' ? '' : slot.text.replace(/\s*\n\s*/g, ' ')).join('\t'))
+    .join('\n');
+
+const renderBlocks = (blocks: ContentBlock[]): string[] =>
+  groupBlocks(blocks).map(group => {
+    switch (group.type) {
+      case 'heading':
+        return group.text;
+      case 'paragraph':
+        return renderSegments(group.segments);
+      case 'list': {
+        const markers = listMarkers(group.items);
+        return group.items
+          .map((item, index) => `${'  '.repeat(item.level)}${markers[index]} ${renderSegments(item.segments)}`)
+          .join('\n');
+      }
+      case 'table':
+        return renderTable(group);
+      case 'crop':
+      case 'equation':
+        return renderSegments([group]);
+    }
+  });
+
+const buildText = async (files: UploadedFile[], { layout }: ExportOptions): Promise<Blob> => {
+  const sections = getExportableFiles(files).map(file => {
+    const header = layout.includeSourceHeaders ? [`Source: ${getSourceLabel(file)}`] : [];
+    return [...header, ...renderBlocks(getExportBlocks(file.blocks!, layout.runningHeaders))].join('\n\n');
+  });
+  const title = layout.includeTitle ? 'Extracted Content\n\n' : '';
+  const text = `${title}${sections.join('\n\n----------------------------------------\n\n')}\n`;
+  return new Blob([text], { type: 'text/plain;charset=utf-8' });
+};
+
+export const textExporter: Exporter = {
+  name: 'Plain text (.txt)',
+  extension: 'txt',
+  export: buildText,
+};
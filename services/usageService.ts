@@ -0,0 +1,82 @@
+import { AppSettings, OcrProviderType, OcrUsage, PromptProfile, UploadedFile } from "../types";
+import { DEFAULT_GEMINI_MODEL } from "./geminiService";
+
+// Token usage and estimated cost of OCR calls.
+
+// Published Gemini API prices in US dollars per million tokens (paid tier, prompts up to 200k tokens).
+// Models are matched by name prefix, longest first, so dated versions find their family.
+const MODEL_PRICES: Record<string, { input: number; output: number }> = {
+  'gemini-2.5-pro': { input: 1.25, output: 10 },
+  'gemini-2.5-flash': { input: 0.3, output: 2.5 },
+  'gemini-2.5-flash-lite': { input: 0.1, output: 0.4 },
+  'gemini-2.0-flash': { input: 0.1, output: 0.4 },
+  'gemini-2.0-flash-lite': { input: 0.075, output: 0.3 },
+};
+
+const PRICED_MODELS = Object.keys(MODEL_PRICES).sort((a, b) => b.length - a.length);
+
+// Price list entry of a model (e.g. "gemini-2.5-flash" for "models/gemini-2.5-flash-001"), or its bare name
+const getModelFamily = (model: string): string => {
+  const name = model.replace(/^models\//, '');
+  return PRICED_MODELS.find(prefix => name.startsWith(prefix)) ?? name;
+};
+
+// Assumed usage of an image before any has been processed with the model: the prompt and
+// one page image in, a full page of blocks (with line positions) out
+const DEFAULT_IMAGE_USAGE = { inputTokens: 3000, outputTokens: 2500 };
+
+/**
+ * Model an image is sent to: the profile's model, or the provider's configured one
+ */
+export const getModelName = (settings: AppSettings, profile: PromptProfile): string =>
+  profile.model || (settings.provider === OcrProviderType.LOCAL ? settings.local.model : DEFAULT_GEMINI_MODEL);
+
+/**
+ * Cost in US dollars; null for models without a known price, such as self-hosted ones
+ */
+export const getCost = (model: string, inputTokens: number, outputTokens: number): number | null => {
+  const price = MODEL_PRICES[getModelFamily(model)];
+  if (!price) return null;
+  return (inputTokens * price.input + outputTokens * price.output) / 1_000_000;
+};
+
+export const getUsageCost = (usage: OcrUsage): number | null =>
+  getCost(usage.model, usage.inputTokens, usage.outputTokens);
+
+/**
+ * Expected cost of one more image with the model, from the average of the images already
+ * processed with it, or a typical page when there are none yet
+ */
+export const estimateImageCost = (files: UploadedFile[], model: string): number => {
+  const family = getModelFamily(model);
+  const samples = files.flatMap(file => file.usage && getModelFamily(file.usage.model) === family ? [file.usage] : []);
+  const usage = samples.length > 0
+    ? {
+        inputTokens: samples.reduce((sum, sample) => sum + sample.inputTokens, 0) / samples.length,
+        outputTokens: samples.reduce((sum, sample) => sum + sample.outputTokens, 0) / samples.length,
+      }
+    : DEFAULT_IMAGE_USAGE;
+  return getCost(model, usage.inputTokens, usage.outputTokens) ?? 0;
+};
+
+export interface UsageTotals {
+  inputTokens: number;
+  outputTokens: number;
+  cost: number; // Of the calls with a known price
+}
+
+export const sumUsage = (files: UploadedFile[]): UsageTotals =>
+  files.reduce((totals, file) => file.usage
+    ? {
+        inputTokens: totals.inputTokens + file.usage.inputTokens,
+        outputTokens: totals.outputTokens + file.usage.outputTokens,
+        cost: totals.cost + (getUsageCost(file.usage) ?? 0),
+      }
+    : totals,
+  { inputTokens: 0, outputTokens: 0, cost: 0 });
+
+export const formatCost = (usd: number): string =>
+  usd === 0 ? '$0' : usd < 0.01 ? `$${usd.toFixed(4)}` : `$${usd.toFixed(2)}`;
+
+export const formatTokens = (tokens: number): string =>
+  tokens >= 10_000 ? `${(tokens / 1000).toFixed(0)}k` : tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : String(tokens);
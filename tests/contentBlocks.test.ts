@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest";
+import { ContentBlock, RegionType } from "../types";
+import { blocksToText, parseTextToBlocks } from "../services/contentBlocks";
+
+// The review editor saves blocks through their text form, so text that was not edited must come back unchanged
+
+const paragraph = (text: string): ContentBlock => ({ type: 'paragraph', segments: [{ type: 'text', text }] });
+
+const roundTrip = (blocks: ContentBlock[]) => parseTextToBlocks(blocksToText(blocks));
+
+describe('review text form', () => {
+  it.each([
+    '1975. was a dry year',
+    '3) and so on',
+    '| not a table |',
+    '- 5 degrees overnight',
+    '* footnote',
+    '# 1 in the charts',
+    '\\alpha is a constant',
+    '\\',
+    '[[REGION:footer]]',
+    '  - indented, with leading spaces',
+  ])('keeps the paragraph %j a paragraph', text => {
+    expect(roundTrip([paragraph(text)])).toEqual([paragraph(text)]);
+  });
+
+  it('keeps line breaks and backslashes inside blocks', () => {
+    const blocks: ContentBlock[] = [
+      paragraph('first line\nsecond line'),
+      paragraph('C:\\new\\\\folder\\'),
+      paragraph('\nstarts with a break'),
+      { type: 'heading', level: 2, text: 'Two\nlines' },
+      { type: 'listItem', ordered: false, level: 0, segments: [{ type: 'text', text: 'item\nwrapped' }] },
+    ];
+    expect(roundTrip(blocks)).toEqual(blocks);
+  });
+
+  it('keeps line breaks and pipes inside table cells', () => {
+    const blocks: ContentBlock[] = [{
+      type: 'table',
+      rows: [
+        { header: true, cells: [{ text: 'Name', colSpan: 1, rowSpan: 1 }, { text: 'Notes\n(optional)', colSpan: 1, rowSpan: 1 }] },
+        { header: false, cells: [{ text: 'a | b', colSpan: 1, rowSpan: 1 }, { text: 'ends in \\', colSpan: 1, rowSpan: 1 }] },
+      ],
+    }];
+    expect(roundTrip(blocks)).toEqual(blocks);
+  });
+
+  it('keeps a paragraph holding only a tag apart from a standalone crop', () => {
+    const blocks: ContentBlock[] = [
+      { type: 'paragraph', segments: [{ type: 'crop', box: { ymin: 10, xmin: 20, ymax: 30, xmax: 40 } }] },
+      { type: 'crop', box: { ymin: 50, xmin: 20, ymax: 70, xmax: 40 } },
+    ];
+    expect(roundTrip(blocks)).toEqual(blocks);
+  });
+
+  it('keeps formatting, regions and lists', () => {
+    const blocks: ContentBlock[] = [
+      { type: 'heading', level: 1, text: 'Results' },
+      { type: 'paragraph', segments: [{ type: 'text', text: 'Plain ' }, { type: 'text', text: 'bold', bold: true }] },
+      { type: 'listItem', ordered: true, level: 0, segments: [{ type: 'text', text: '1975. first' }] },
+      { type: 'paragraph', segments: [{ type: 'text', text: 'Page 2' }], region: RegionType.FOOTER },
+    ];
+    expect(roundTrip(blocks)).toEqual(blocks);
+  });
+
+  it('fixes crop boxes typed out of range or inverted, as for model output', () => {
+    const blocks = parseTextToBlocks('[[CROP:1200,500,100,-20]]\nSee [[EQ:0.1,0.2,0.3,0.4|latex=x]] here');
+    expect(blocks).toEqual([
+      { type: 'crop', box: { ymin: 100, xmin: 0, ymax: 1000, xmax: 500 } },
+      {
+        type: 'paragraph',
+        segments: [
+          { type: 'text', text: 'See ' },
+          { type: 'equation', box: { ymin: 100, xmin: 200, ymax: 300, xmax: 400 }, latex: 'x' },
+          { type: 'text', text: ' here' },
+        ],
+      },
+    ]);
+    expect(roundTrip(blocks)).toEqual(blocks);
+  });
+});
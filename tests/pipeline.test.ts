@@ -0,0 +1,392 @@
+import { readFileSync, readdirSync } from "node:fs";
+import path from "node:path";
+import { beforeAll, describe, expect, it, vi } from "vitest";
+import { Packer } from "docx";
+import JSZip from "jszip";
+import sharp from "sharp";
+import { AppSettings, CropRepairType, ProcessingStatus, UploadedFile } from "../types";
+import { DEFAULT_SETTINGS } from "../services/settingsService";
+import { BUILT_IN_PROFILES } from "../services/promptProfiles";
+import { createJobQueue } from "../services/jobQueue";
+import { createDocxDocument } from "../services/docxService";
+import { blocksToText } from "../services/contentBlocks";
+import { setImageBackend } from "../services/imageService";
+import { MISSING_IMAGE_TEXT } from "../services/exportAssets";
+import { getPageGeometry, ptToPx } from "../services/pageLayout";
+import { createMockProvider } from "../services/mockOcrService";
+import { repairCrops } from "../services/cropRepair";
+import { sharpImageBackend } from "../cli/sharpImageBackend";
+
+// Runs images through the same OCR queue and Word export as the app, with recorded model
+// outputs (tests/fixtures/<image name>.txt) instead of live API calls.
+
+const FIXTURES = path.join(__dirname, 'fixtures');
+const recordings = Object.fromEntries(
+  readdirSync(FIXTURES)
+    .filter(name => name.endsWith('.txt'))
+    .map(name => [path.basename(name, '.txt'), readFileSync(path.join(FIXTURES, name), 'utf8')])
+);
+
+const IMAGE_WIDTH = 400;
+const IMAGE_HEIGHT = 300;
+const EMU_PER_PX = 9525;
+
+const UNREFINED_LAYOUT = {
+  ...DEFAULT_SETTINGS.layout,
+  cropRefinement: { trim: false, marginPx: 0, upscaleSmall: false, transparent: false },
+};
+
+let pageImage: Buffer;
+// White page with a black 120 x 60 px "formula" at x 100-220, y 60-120
+let formulaImage: Buffer;
+
+const toUploadedFile = (name: string, data: Uint8Array): UploadedFile => ({
+  id: name,
+  file: new File([data], name, { type: 'image/png' }),
+  previewUrl: '',
+  status: ProcessingStatus.IDLE,
+  blocks: null,
+  extractedText: null,
+});
+
+/**
+ * OCRs the images with the recorded responses and exports them as .docx, returning the items and the unpacked document
+ */
+const convert = async (
+  images: UploadedFile[],
+  { crops = DEFAULT_SETTINGS.crops, layout = DEFAULT_SETTINGS.layout }: Partial<Pick<AppSettings, 'crops' | 'layout'>> = {}
+) => {
+  const provider = createMockProvider(recordings);
+  const profile = BUILT_IN_PROFILES[0];
+  const queue = createJobQueue<UploadedFile>(
+    images,
+    async (item, signal) => {
+      const result = await repairCrops(await provider.extract(item.file, DEFAULT_SETTINGS.extraction, profile, signal), crops, {
+        image: item.file,
+        extract: region => provider.extract(region, DEFAULT_SETTINGS.extraction, profile, signal),
+      });
+      Object.assign(item, {
+        status: ProcessingStatus.COMPLETED,
+        blocks: result.blocks,
+        extractedText: blocksToText(result.blocks),
+        repairs: result.repairs,
+      });
+    },
+    { ...DEFAULT_SETTINGS.queue, baseDelayMs: 0, maxDelayMs: 0 },
+    event => {
+      if (event.type === 'failure') {
+        event.job.status = ProcessingStatus.ERROR;
+        event.job.errorMessage = event.error instanceof Error ? event.error.message : String(event.error);
+      }
+    }
+  );
+  await queue.done;
+
+  const buffer = await Packer.toBuffer(await createDocxDocument(images, { layout }));
+  const zip = await JSZip.loadAsync(buffer);
+  const xml = await zip.file('word/document.xml')!.async('string');
+  const media = Object.values(zip.files).filter(entry => !entry.dir && entry.name.startsWith('word/media/'));
+  return { images, xml, media };
+};
+
+const paragraphTexts = (xml: string): string[] =>
+  [...xml.matchAll(/<w:p[ >][\s\S]*?<\/w:p>/g)]
+    .map(([paragraph]) => [...paragraph.matchAll(/<w:t(?: [^>]*)?>([^<]*)<\/w:t>/g)].map(([, text]) => text).join(''))
+    .filter(Boolean);
+
+const imageExtents = (xml: string) =>
+  [...xml.matchAll(/<wp:extent cx="(\d+)" cy="(\d+)"\/>/g)].map(([, cx, cy]) => ({ cx: Number(cx), cy: Number(cy) }));
+
+const expectedExtent = (box: [number, number, number, number]) => {
+  const [ymin, xmin, ymax, xmax] = box;
+  const page = getPageGeometry(DEFAULT_SETTINGS.layout);
+  const pixelWidth = Math.round((xmax / 1000) * IMAGE_WIDTH) - Math.round((xmin / 1000) * IMAGE_WIDTH);
+  const pixelHeight = Math.round((ymax / 1000) * IMAGE_HEIGHT) - Math.round((ymin / 1000) * IMAGE_HEIGHT);
+  const width = ((xmax - xmin) / 1000) * page.contentWidth;
+  const height = width * (pixelHeight / pixelWidth);
+  return { cx: ptToPx(width) * EMU_PER_PX, cy: ptToPx(height) * EMU_PER_PX };
+};
+
+beforeAll(async () => {
+  setImageBackend(sharpImageBackend);
+  // A gradient, so crops of different regions are different images (Word stores identical ones once)
+  const pixels = Buffer.alloc(IMAGE_WIDTH * IMAGE_HEIGHT * 3);
+  for (let y = 0; y < IMAGE_HEIGHT; y++) {
+    for (let x = 0; x < IMAGE_WIDTH; x++) {
+      pixels.set([Math.round((x / IMAGE_WIDTH) * 255), Math.round((y / IMAGE_HEIGHT) * 255), 128], (y * IMAGE_WIDTH + x) * 3);
+    }
+  }
+  pageImage = await sharp(pixels, { raw: { width: IMAGE_WIDTH, height: IMAGE_HEIGHT, channels: 3 } }).png().toBuffer();
+  formulaImage = await sharp({
+    create: { width: IMAGE_WIDTH, height: IMAGE_HEIGHT, channels: 3, background: { r: 255, g: 255, b: 255 } },
+  })
+    .composite([{
+      input: { create: { width: 120, height: 60, channels: 3, background: { r: 0, g: 0, b: 0 } } },
+      left: 100,
+      top: 60,
+    }])
+    .png()
+    .toBuffer();
+  // Failed crops are logged; keep the test output readable
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+describe("recorded responses to .docx", () => {
+  it("writes headings, formatted text, lists and tables", async () => {
+    const { images, xml, media } = await convert([toUploadedFile('text-page.png', pageImage)]);
+
+    expect(images[0].status).toBe(ProcessingStatus.COMPLETED);
+    const texts = paragraphTexts(xml);
+    expect(texts).toEqual(expect.arrayContaining([
+      'Chapter 1',
+      'Plain text with bold and italic words.',
+      'First item',
+      'Second item',
+      'Name',
+      'Alpha',
+    ]));
+    expect(xml).toContain('<w:b/>');
+    expect(xml).toContain('<w:i/>');
+    expect(xml).toContain('<w:tbl>');
+    expect(media).toHaveLength(0);
+  });
+
+  it("embeds crops and equations at the size of their box", async () => {
+    // Without refinement, which would fit the crops to their content
+    const { xml, media } = await convert([toUploadedFile('figure-page.png', pageImage)], { layout: UNREFINED_LAYOUT });
+
+    // Block crop, inline crop and the equation without LaTeX; the other equation is written as OMML
+    expect(media).toHaveLength(3);
+    expect(xml).toContain('<m:oMath>');
+    expect(xml).not.toContain(MISSING_IMAGE_TEXT);
+
+    const extents = imageExtents(xml);
+    expect(extents).toHaveLength(3);
+    const boxes: [number, number, number, number][] = [[100, 100, 500, 600], [600, 200, 650, 250], [700, 100, 800, 900]];
+    boxes.forEach((box, i) => {
+      const expected = expectedExtent(box);
+      expect(extents[i].cx).toBeCloseTo(expected.cx, -1);
+      expect(extents[i].cy).toBeCloseTo(expected.cy, -1);
+    });
+  });
+
+  it("keeps the structure of a chemistry crop that also has a formula", async () => {
+    const { xml, media } = await convert([toUploadedFile('chemistry-page.png', pageImage)], { layout: UNREFINED_LAYOUT });
+
+    // Node has no SMILES drawing, so the structure keeps its cropped image, with the SMILES as alt text
+    expect(media).toHaveLength(1);
+    expect(xml).toContain('descr="c1ccccc1"');
+    expect(xml).not.toContain('>C<');
+    // A formula without a structure is written as text, with subscripts
+    expect(paragraphTexts(xml)).toContain('The acid H2SO4 is strong.');
+    expect(xml).toContain('<w:vertAlign w:val="subscript"/>');
+  });
+
+  it("writes [MISSING IMAGE] when a crop cannot be cut from the image", async () => {
+    const { xml, media } = await convert([
+      toUploadedFile('tiny-crop.png', pageImage),
+      toUploadedFile('figure-page.png', new TextEncoder().encode('not an image')),
+    ]);
+
+    expect(media).toHaveLength(0);
+    expect(paragraphTexts(xml)).toContain('A crop smaller than one pixel follows.');
+    // One for the tiny crop, three for the unreadable image
+    expect(xml.split(MISSING_IMAGE_TEXT)).toHaveLength(5);
+  });
+
+  it("keeps unclosed markup and broken tags as literal text", async () => {
+    const { xml } = await convert([
+      toUploadedFile('unclosed-markup.png', pageImage),
+      toUploadedFile('legacy-tags.png', pageImage),
+    ]);
+
+    const texts = paragraphTexts(xml);
+    expect(texts).toContain('Starts **bold but never closes and &lt;u&gt;underline too');
+    expect(texts).toContain('Old tag [[CROP:100,100,500 left as text');
+    const paragraph = xml.match(/<w:p>(?:(?!<w:p>).)*?Starts \*\*bold.*?<\/w:p>/)![0];
+    expect(paragraph).not.toMatch(/<w:(b|u)\b/);
+  });
+
+  it("fails images whose response is invalid and leaves them out of the document", async () => {
+    const { images, xml } = await convert([
+      toUploadedFile('invalid-json.png', pageImage),
+      toUploadedFile('malformed-box.png', pageImage),
+      toUploadedFile('unknown-block.png', pageImage),
+      toUploadedFile('text-page.png', pageImage),
+    ]);
+
+    expect(images.map(image => image.status)).toEqual([
+      ProcessingStatus.ERROR,
+      ProcessingStatus.ERROR,
+      ProcessingStatus.ERROR,
+      ProcessingStatus.COMPLETED,
+    ]);
+    expect(images[0].errorMessage).toBe("The model did not return valid JSON.");
+    expect(images[1].errorMessage).toBe("Invalid OCR response at blocks[0].box: expected [ymin, xmin, ymax, xmax]");
+    expect(images[2].errorMessage).toBe('Invalid OCR response at blocks[0].type: unknown block type "image"');
+
+    const texts = paragraphTexts(xml);
+    expect(texts).toContain('Chapter 1');
+    expect(texts).not.toContain('Signed');
+  });
+
+  it("fails images without a recording", async () => {
+    const { images } = await convert([
+      toUploadedFile('unrecorded.png', pageImage),
+      toUploadedFile('text-page-processed.jpg', pageImage),
+    ]);
+
+    expect(images[0].status).toBe(ProcessingStatus.ERROR);
+    expect(images[0].errorMessage).toBe('No recorded response for "unrecorded".');
+    expect(images[1].status).toBe(ProcessingStatus.COMPLETED);
+  });
+});
+
+describe("crop box repairs", () => {
+  it("clamps coordinates outside 0-1000 and logs it", async () => {
+    const { images, xml, media } = await convert([toUploadedFile('out-of-range.png', pageImage)]);
+
+    expect(images[0].status).toBe(ProcessingStatus.COMPLETED);
+    expect(images[0].repairs).toEqual([{
+      type: CropRepairType.CLAMPED,
+      path: 'blocks[1].box',
+      before: [120, 80, 1450, 900],
+      after: { ymin: 120, xmin: 80, ymax: 1000, xmax: 900 },
+    }]);
+    expect(media).toHaveLength(1);
+    expect(xml).not.toContain(MISSING_IMAGE_TEXT);
+  });
+
+  it("reads boxes written as strings, objects and fractions, and swaps inverted ones", async () => {
+    const { images, media } = await convert([toUploadedFile('loose-boxes.png', pageImage)]);
+
+    const boxes = images[0].blocks!.flatMap(block => block.type === 'crop' ? [block.box] : []);
+    expect(boxes).toEqual([
+      { ymin: 100, xmin: 100, ymax: 300, xmax: 400 },
+      { ymin: 400, xmin: 100, ymax: 600, xmax: 400 },
+      { ymin: 650, xmin: 100, ymax: 800, xmax: 400 },
+      { ymin: 850, xmin: 100, ymax: 950, xmax: 400 },
+    ]);
+    expect(images[0].repairs!.map(repair => [repair.type, repair.path])).toEqual([
+      [CropRepairType.SCALED, 'blocks[4].box'],
+      [CropRepairType.SWAPPED, 'blocks[6].box'],
+    ]);
+    expect(media).toHaveLength(4);
+  });
+
+  it("logs a box without area and writes [MISSING IMAGE]", async () => {
+    const { images, xml } = await convert([toUploadedFile('degenerate-box.png', pageImage)]);
+
+    expect(images[0].repairs!.map(repair => repair.type)).toEqual([CropRepairType.CLAMPED, CropRepairType.INVALID]);
+    expect(images[0].repairs![1].after).toBeUndefined();
+    expect(xml).toContain(MISSING_IMAGE_TEXT);
+  });
+
+  it("re-asks the model for just the region of a box without area", async () => {
+    const { images, xml, media } = await convert(
+      [toUploadedFile('degenerate-box.png', pageImage)],
+      { crops: { ...DEFAULT_SETTINGS.crops, reaskInvalid: true } }
+    );
+
+    // The region sent is the box grown by 100 on each side: [900, 0, 1000, 700]
+    expect(images[0].repairs).toEqual([{
+      type: CropRepairType.REASKED,
+      path: 'blocks[1].box',
+      before: [1200, 100, 1500, 600],
+      after: { ymin: 910, xmin: 140, ymax: 990, xmax: 560 },
+    }]);
+    expect(media).toHaveLength(1);
+    expect(xml).not.toContain(MISSING_IMAGE_TEXT);
+  });
+
+  it("merges overlapping crops that follow each other", async () => {
+    const { images, media } = await convert([toUploadedFile('split-figure.png', pageImage)]);
+
+    expect(images[0].blocks).toEqual([
+      { type: 'crop', box: { ymin: 100, xmin: 100, ymax: 600, xmax: 500 }, confidence: 0.7 },
+      { type: 'crop', box: { ymin: 700, xmin: 100, ymax: 900, xmax: 500 } },
+    ]);
+    expect(images[0].repairs).toEqual([{
+      type: CropRepairType.MERGED,
+      path: 'blocks[1].box',
+      before: [350, 100, 600, 500],
+      after: { ymin: 100, xmin: 100, ymax: 600, xmax: 500 },
+    }]);
+    expect(media).toHaveLength(2);
+  });
+
+  it("pads crops, within the image, without logging it", async () => {
+    const { images } = await convert(
+      [toUploadedFile('split-figure.png', pageImage)],
+      { crops: { padding: 150, mergeOverlapping: false, reaskInvalid: false } }
+    );
+
+    expect(images[0].blocks!.map(block => block.type === 'crop' && block.box)).toEqual([
+      { ymin: 0, xmin: 0, ymax: 550, xmax: 650 },
+      { ymin: 200, xmin: 0, ymax: 750, xmax: 650 },
+      { ymin: 550, xmin: 0, ymax: 1000, xmax: 650 },
+    ]);
+    expect(images[0].repairs).toBeUndefined();
+  });
+});
+
+describe("crop refinement", () => {
+  const readMedia = async (media: JSZip.JSZipObject[]) =>
+    sharp(await media[0].async('nodebuffer')).raw().toBuffer({ resolveWithObject: true });
+
+  it("trims a loose crop to its content plus the margin", async () => {
+    const { xml, media } = await convert([toUploadedFile('loose-formula.png', formulaImage)]);
+
+    const { info } = await readMedia(media);
+    // 120 x 60 content and 6 px on each side
+    expect([info.width, info.height]).toEqual([132, 72]);
+    // Sized by the trimmed part of the image, at the same scale as an untrimmed crop
+    const page = getPageGeometry(DEFAULT_SETTINGS.layout);
+    const width = (132 / IMAGE_WIDTH) * page.contentWidth;
+    const [extent] = imageExtents(xml);
+    expect(extent.cx).toBeCloseTo(ptToPx(width) * EMU_PER_PX, -1);
+    expect(extent.cy).toBeCloseTo(ptToPx(width * 72 / 132) * EMU_PER_PX, -1);
+  });
+
+  it("grows a crop that clips its content", async () => {
+    const { media } = await convert([toUploadedFile('clipped-formula.png', formulaImage)]);
+
+    // The box covers x 104-216, y 63-117 of the 100-220 x 60-120 formula; the crop now holds all of it
+    const { data, info } = await readMedia(media);
+    expect(info.width).toBeGreaterThanOrEqual(120);
+    expect(info.height).toBeGreaterThanOrEqual(60);
+    const pixel = (x: number, y: number) => data[(y * info.width + x) * info.channels];
+    for (let x = 0; x < info.width; x++) {
+      expect([pixel(x, 0), pixel(x, info.height - 1)]).toEqual([255, 255]);
+    }
+    for (let y = 0; y < info.height; y++) {
+      expect([pixel(0, y), pixel(info.width - 1, y)]).toEqual([255, 255]);
+    }
+  });
+
+  it("upscales small crops and can make the background transparent", async () => {
+    const layout = {
+      ...DEFAULT_SETTINGS.layout,
+      cropRefinement: { trim: true, marginPx: 6, upscaleSmall: true, transparent: true },
+    };
+    const { media } = await convert([toUploadedFile('loose-formula.png', formulaImage)], { layout });
+
+    const { data, info } = await readMedia(media);
+    expect([info.width, info.height]).toEqual([400, 218]);
+    expect(info.channels).toBe(4);
+    const alpha = (x: number, y: number) => data[(y * info.width + x) * 4 + 3];
+    expect(alpha(0, 0)).toBe(0);
+    expect(alpha(200, 109)).toBe(255);
+  });
+
+  it("keeps a blank box as given", async () => {
+    const blank = await sharp({
+      create: { width: IMAGE_WIDTH, height: IMAGE_HEIGHT, channels: 3, background: { r: 255, g: 255, b: 255 } },
+    }).png().toBuffer();
+    const { media } = await convert([toUploadedFile('loose-formula.png', blank)]);
+
+    const { info } = await readMedia(media);
+    expect([info.width, info.height]).toEqual([200, 120]);
+  });
+});
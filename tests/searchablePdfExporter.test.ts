@@ -0,0 +1,59 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import sharp from "sharp";
+import { getDocument } from "pdfjs-dist/legacy/build/pdf.mjs";
+import { ContentBlock, ProcessingStatus, TextLine, UploadedFile } from "../types";
+import { DEFAULT_SETTINGS } from "../services/settingsService";
+import { searchablePdfExporter } from "../services/searchablePdfExporter";
+
+// The text layer is invisible, so what matters is that a PDF reader gets the words back out of it
+
+let pageImage: Buffer;
+
+const toUploadedFile = (blocks: ContentBlock[], lines?: TextLine[]): UploadedFile => ({
+  id: 'page',
+  file: new File([pageImage], 'page.png', { type: 'image/png' }),
+  previewUrl: '',
+  status: ProcessingStatus.COMPLETED,
+  blocks,
+  extractedText: null,
+  lines,
+});
+
+const extractText = async (pdf: Blob): Promise<string> => {
+  const document = await getDocument({ data: new Uint8Array(await pdf.arrayBuffer()) }).promise;
+  const page = await document.getPage(1);
+  const { items } = await page.getTextContent();
+  // Stretched lines come back with wider gaps between words
+  return items.map(item => 'str' in item ? item.str : '').join(' ').replace(/\s+/g, ' ');
+};
+
+beforeAll(async () => {
+  pageImage = await sharp({ create: { width: 400, height: 300, channels: 3, background: { r: 255, g: 255, b: 255 } } }).png().toBuffer();
+});
+
+describe("searchable PDF text layer", () => {
+  const blocks: ContentBlock[] = [
+    { type: 'heading', level: 1, text: 'Bài 1' },
+    { type: 'paragraph', segments: [{ type: 'text', text: 'Tính giá trị của biểu thức' }] },
+  ];
+
+  it("keeps Vietnamese diacritics at the OCR line positions", async () => {
+    const lines: TextLine[] = [
+      { text: 'Bài 1', box: { ymin: 50, xmin: 100, ymax: 100, xmax: 300 } },
+      { text: 'Tính giá trị của biểu thức', box: { ymin: 120, xmin: 100, ymax: 170, xmax: 900 } },
+    ];
+    const pdf = await searchablePdfExporter.export([toUploadedFile(blocks, lines)], { layout: DEFAULT_SETTINGS.layout });
+    const text = await extractText(pdf);
+
+    expect(text).toContain('Bài');
+    expect(text).toContain('Tính giá trị của biểu thức');
+  });
+
+  it("keeps Vietnamese diacritics without line positions", async () => {
+    const pdf = await searchablePdfExporter.export([toUploadedFile(blocks)], { layout: DEFAULT_SETTINGS.layout });
+    const text = await extractText(pdf);
+
+    expect(text).toContain('Bài 1');
+    expect(text).toContain('Tính giá trị của biểu thức');
+  });
+});
@@ -1,8 +1,156 @@
 export enum ProcessingStatus {
   IDLE = 'IDLE',
+  QUEUED = 'QUEUED',
   PROCESSING = 'PROCESSING',
+  RETRYING = 'RETRYING',
   COMPLETED = 'COMPLETED',
   ERROR = 'ERROR',
+  CANCELLED = 'CANCELLED',
+}
+
+// Bounding box on a 0-1000 scale relative to the source image
+export interface CropBox {
+  ymin: number;
+  xmin: number;
+  ymax: number;
+  xmax: number;
+}
+
+// What was changed about a crop box the model returned
+export enum CropRepairType {
+  SCALED = 'scaled', // Given as fractions of the image (0-1) and scaled to 0-1000
+  CLAMPED = 'clamped', // Coordinates outside 0-1000 moved to the edge
+  SWAPPED = 'swapped', // Minimum and maximum were the wrong way round
+  MERGED = 'merged', // Overlapping crops next to each other joined into one
+  REASKED = 'reasked', // Still unusable, so the model was asked again for just that region
+  INVALID = 'invalid', // Still unusable; exported as [MISSING IMAGE]
+}
+
+export interface CropRepair {
+  type: CropRepairType;
+  path: string; // Where the box is in the response, e.g. "blocks[3].box"
+  before: number[]; // Coordinates as the model returned them
+  after?: CropBox; // Missing when the box could not be repaired
+}
+
+export interface TextSegment {
+  type: 'text';
+  text: string;
+  bold?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+  uncertain?: boolean; // The model was not sure of this reading; to be checked against the image
+}
+
+export type TextMarks = Pick<TextSegment, 'bold' | 'italic' | 'underline' | 'uncertain'>;
+
+// Chemistry annotations for a crop region (chemistry mode only)
+export interface ChemistryInfo {
+  smiles?: string; // For drawn structures
+  formula?: string; // Condensed linear formula, charges after "^" (e.g. SO4^2-)
+}
+
+export interface CropSegment {
+  type: 'crop';
+  box: CropBox;
+  chemistry?: ChemistryInfo;
+}
+
+export interface EquationSegment {
+  type: 'equation';
+  box: CropBox; // Always present, used as fallback when the LaTeX cannot be converted
+  latex?: string;
+}
+
+export type InlineSegment = TextSegment | CropSegment | EquationSegment;
+
+// Part of the page a block was read from, found by layout analysis
+export enum RegionType {
+  BODY = 'body',
+  SIDEBAR = 'sidebar', // Boxed or marginal text beside the main flow
+  HEADER = 'header', // Running header repeated on every page
+  FOOTER = 'footer', // Running footer, page numbers
+  FOOTNOTE = 'footnote',
+}
+
+export interface BlockPlacement {
+  region?: RegionType; // Missing means BODY
+  column?: number; // 1-based column of body text laid out in columns; missing for full-width content
+}
+
+// How sure the model was that a block is transcribed exactly right
+export interface BlockConfidence {
+  confidence?: number; // 0-1; missing when not reported, or once the block was edited in review
+}
+
+export interface ParagraphBlock extends BlockPlacement, BlockConfidence {
+  type: 'paragraph';
+  segments: InlineSegment[];
+}
+
+export interface HeadingBlock extends BlockPlacement, BlockConfidence {
+  type: 'heading';
+  level: number; // 1-6
+  text: string;
+}
+
+export interface ListItemBlock extends BlockPlacement, BlockConfidence {
+  type: 'listItem';
+  ordered: boolean;
+  level: number; // 0 = top level
+  segments: InlineSegment[];
+}
+
+export interface TableCellData {
+  text: string;
+  colSpan: number;
+  rowSpan: number;
+}
+
+export interface TableRowData {
+  header: boolean;
+  // Merged cells appear once, on their top-left position; covered positions are omitted
+  cells: TableCellData[];
+}
+
+export interface TableBlock extends BlockPlacement, BlockConfidence {
+  type: 'table';
+  rows: TableRowData[];
+}
+
+export interface CropBlock extends BlockPlacement, BlockConfidence {
+  type: 'crop';
+  box: CropBox;
+  chemistry?: ChemistryInfo;
+}
+
+export interface EquationBlock extends BlockPlacement, BlockConfidence {
+  type: 'equation';
+  box: CropBox;
+  latex?: string;
+}
+
+export type ContentBlock = ParagraphBlock | HeadingBlock | ListItemBlock | TableBlock | CropBlock | EquationBlock;
+
+// One printed line with its position, used for the text layer of searchable PDFs
+export interface TextLine {
+  text: string;
+  box: CropBox;
+}
+
+// Token usage of one OCR call, as reported by the provider
+export interface OcrUsage {
+  model: string;
+  inputTokens: number;
+  outputTokens: number; // Including any thinking tokens, which are billed as output
+  latencyMs: number;
+}
+
+export interface OcrResult {
+  blocks: ContentBlock[];
+  lines?: TextLine[]; // Only when ExtractionOptions.linePositions is on
+  usage?: OcrUsage; // Missing when the provider does not report it
+  repairs?: CropRepair[]; // Missing when every box was usable as returned
 }
 
 export interface UploadedFile {
@@ -10,10 +158,207 @@ export interface UploadedFile {
   file: File;
   previewUrl: string;
   status: ProcessingStatus;
-  extractedText: string | null;
+  blocks: ContentBlock[] | null;
+  extractedText: string | null; // Plain-text rendering of blocks, used for previews
+  lines?: TextLine[]; // Line positions from OCR, for the searchable PDF export
+  processedFile?: File; // Pre-processed image that was sent to OCR; boxes refer to it
+  processedPreviewUrl?: string;
   errorMessage?: string;
+  attempts?: number; // Number of OCR calls made in the last run
+  usage?: OcrUsage; // Of the call that produced the blocks
+  repairs?: CropRepair[]; // Changes made to the crop boxes of that call
+  handwriting?: boolean; // Overrides ExtractionOptions.handwriting for this image
+  profileId?: string; // Prompt profile for this image; missing means the batch default (AppSettings.profileId)
+  sourceName?: string; // Original file name when this item is one page of a PDF
+  pageNumber?: number;
+}
+
+export interface Project {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
 }
 
 export interface GeminiResponse {
   text: string;
+}
+
+export enum OcrProviderType {
+  GEMINI = 'GEMINI',
+  LOCAL = 'LOCAL',
+}
+
+export interface LocalProviderConfig {
+  endpoint: string; // Base URL of an OpenAI-compatible API, e.g. http://localhost:11434/v1
+  model: string;
+  apiKey?: string;
+}
+
+export enum FormulaMode {
+  CROP = 'CROP', // Formulas are embedded as cropped images
+  LATEX = 'LATEX', // Formulas are transcribed to LaTeX and written as editable Word equations
+}
+
+// Options that change what the model is asked to extract
+export interface ExtractionOptions {
+  formulaMode: FormulaMode;
+  chemistryMode: boolean; // Ask for SMILES / linear formulas for chemistry crops
+  linePositions: boolean; // Also ask for the position of every text line (searchable PDF)
+  languages: string[]; // Languages expected on the pages, e.g. ["Vietnamese", "English"]; empty to detect
+  handwriting: boolean; // Use the prompt for handwritten pages
+  markUncertain: boolean; // Ask the model to flag words it is not sure of
+}
+
+// Kinds of page elements a prompt profile has cut out of the text as crops (or equations)
+export enum CropElement {
+  MATH = 'math', // Formulas; cropped or written as LaTeX depending on FormulaMode
+  CHEMISTRY = 'chemistry', // Chemical formulas and structures
+  DIAGRAMS = 'diagrams', // Geometry diagrams, figures, drawings
+  CHARTS = 'charts', // Charts and graphs
+  PICTURES = 'pictures', // Photos, logos, stamps, signatures
+}
+
+// Prompt settings for one kind of document (math exams, receipts, books, ...)
+export interface PromptProfile {
+  id: string;
+  name: string;
+  builtIn?: boolean; // Shipped with the app; read-only
+  systemInstruction: string; // What the documents are and how to read them; the block format is added by the app
+  userPrompt: string; // Sent with each image
+  temperature: number;
+  model: string; // Empty for the provider's configured model
+  cropElements: CropElement[];
+}
+
+// Canvas clean-up applied to each image before OCR; crops are cut from the result
+export interface PreprocessSettings {
+  enabled: boolean;
+  autoRotate: boolean; // Apply the EXIF orientation of phone photos
+  perspective: boolean; // Straighten a photographed page from its four corners
+  deskew: boolean; // Rotate slightly tilted text level
+  grayscale: boolean;
+  contrast: boolean; // Stretch the brightness range
+  threshold: boolean; // Black and white against the local brightness
+  maxDimension: number; // Longest side in pixels; larger images are scaled down
+}
+
+export interface QueueSettings {
+  concurrency: number; // Files processed in parallel
+  maxRetries: number; // Retries for rate limits, server and network errors
+}
+
+// Clean-up of crop boxes after OCR
+export interface CropSettings {
+  padding: number; // Margin added around every crop, in 0-1000 units of the image size
+  mergeOverlapping: boolean; // Join overlapping crops that follow each other, such as a figure split in two
+  reaskInvalid: boolean; // Ask the model again for a box that is unusable after clamping (one extra call per box)
+}
+
+// Spending limit for one "Process All" run, in estimated US dollars
+export interface BudgetSettings {
+  enabled: boolean;
+  limitUsd: number;
+}
+
+export enum PageSize {
+  A4 = 'a4',
+  LETTER = 'letter',
+  CUSTOM = 'custom',
+}
+
+export enum PageOrientation {
+  PORTRAIT = 'portrait',
+  LANDSCAPE = 'landscape',
+}
+
+// How the content of consecutive source images is separated in paged exports
+export enum SourceSeparation {
+  CONTINUOUS = 'continuous', // One after another
+  PAGE_BREAK = 'pageBreak', // Each image starts on a new page
+  SECTION = 'section', // Each image in its own section, with the file name in the header and page numbers in the footer
+}
+
+// What happens to running headers and footers found by layout analysis
+export enum RunningHeaderMode {
+  KEEP = 'keep', // Exported with the text, where they were read
+  DROP = 'drop',
+  MOVE = 'move', // Into the Word page header/footer; other formats put them at the top and bottom of the image's text
+}
+
+// How words the model flagged as uncertain appear in Word exports
+export enum UncertainWordMarking {
+  NONE = 'none',
+  HIGHLIGHT = 'highlight', // Yellow highlight
+  COMMENT = 'comment', // A Word comment on each word
+}
+
+export interface PageMargins {
+  top: number; // Millimetres
+  right: number;
+  bottom: number;
+  left: number;
+}
+
+// Image analysis applied when a crop is cut out for export
+export interface CropRefinement {
+  trim: boolean; // Snap the box to the content inside it, looking slightly past its edges for clipped strokes
+  marginPx: number; // Space kept around the content after trimming, in source image pixels
+  upscaleSmall: boolean; // Enlarge small crops so they stay smooth when printed
+  transparent: boolean; // Replace the background with transparency
+}
+
+// Page and text settings for the exported document
+export interface LayoutSettings {
+  pageSize: PageSize;
+  customWidthMm: number; // Used when pageSize is CUSTOM
+  customHeightMm: number;
+  orientation: PageOrientation;
+  margins: PageMargins;
+  fontFamily: string;
+  fontSizePt: number;
+  includeTitle: boolean; // "Extracted Content" title at the top
+  includeSourceHeaders: boolean; // "Source: file name" line before each image's content
+  sourceSeparation: SourceSeparation;
+  tableOfContents: boolean; // Contents list built from the source and content headings
+  recreateColumns: boolean; // Set multi-column text in Word columns
+  runningHeaders: RunningHeaderMode;
+  uncertainWords: UncertainWordMarking;
+  confidenceComments: boolean; // Word comment on each passage the model reported low confidence for
+  cropRefinement: CropRefinement;
+}
+
+// Styles taken from a user-supplied .docx, applied to Word exports
+export interface StyleTemplate {
+  name: string; // File name of the template
+  stylesXml: string; // word/styles.xml
+  themeXml?: string; // word/theme/theme1.xml, which theme fonts in the styles refer to
+}
+
+export interface ExportOptions {
+  layout: LayoutSettings;
+  styleTemplate?: StyleTemplate | null;
+}
+
+export enum ExportFormat {
+  DOCX = 'docx',
+  MARKDOWN = 'markdown',
+  HTML = 'html',
+  ODT = 'odt',
+  TEXT = 'text',
+  SEARCHABLE_PDF = 'pdf',
+}
+
+export interface AppSettings {
+  provider: OcrProviderType;
+  local: LocalProviderConfig;
+  extraction: ExtractionOptions;
+  profileId: string; // Prompt profile of the batch; images can choose another
+  pdfDpi: number; // Resolution PDF pages are rendered at
+  preprocess: PreprocessSettings;
+  queue: QueueSettings;
+  budget: BudgetSettings;
+  crops: CropSettings;
+  exportFormat: ExportFormat;
+  layout: LayoutSettings;
 }
\ No newline at end of file
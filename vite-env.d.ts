@@ -0,0 +1,5 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_OCR_PROXY_URL?: string; // Proxy server base URL; see services/ocrProvider.ts
+}